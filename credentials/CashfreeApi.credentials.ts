@@ -23,9 +23,9 @@ export class CashfreeApi implements ICredentialType {
 					description: 'For orders, payment links, refunds',
 				},
 				{
-					name: 'Payout Operations (Cashgram)',
+					name: 'Payout Operations (Cashgram, Transfers)',
 					value: 'payout',
-					description: 'For Cashgram and payout operations',
+					description: 'For Cashgram, transfer and other payout operations',
 				},
 			],
 			default: 'paymentGateway',
@@ -45,11 +45,46 @@ export class CashfreeApi implements ICredentialType {
 					name: 'Production',
 					value: 'production',
 				},
+				{
+					name: 'Custom',
+					value: 'custom',
+					description: 'Use your own base URLs, e.g. a local mock server or an egress proxy',
+				},
 			],
 			default: 'sandbox',
 			required: true,
 			description: 'Environment to use for API calls',
 		},
+		{
+			displayName: 'Payment Gateway Base URL',
+			name: 'pgBaseUrl',
+			type: 'string',
+			default: '',
+			required: true,
+			placeholder: 'http://localhost:8080/pg',
+			displayOptions: {
+				show: {
+					environment: ['custom'],
+					operationType: ['paymentGateway'],
+				},
+			},
+			description: 'Base URL for Payment Gateway calls, including the /pg path',
+		},
+		{
+			displayName: 'Payout Base URL',
+			name: 'payoutBaseUrl',
+			type: 'string',
+			default: '',
+			required: true,
+			placeholder: 'http://localhost:8080',
+			displayOptions: {
+				show: {
+					environment: ['custom'],
+					operationType: ['payout'],
+				},
+			},
+			description: 'Base URL for Payout calls, without the /payout path',
+		},
 		{
 			displayName: 'Client ID',
 			name: 'clientId',
@@ -150,5 +185,5 @@ export class CashfreeApi implements ICredentialType {
 		},
 	};
 
-	// Authentication will be validated during actual API operations
+	// Credentials are tested by the CashfreePayments node (cashfreeApiTest) for both operation types
 }
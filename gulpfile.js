@@ -1,8 +1,8 @@
 const { src, dest, parallel } = require('gulp');
 
 function buildIcons() {
-	return src('nodes/CashfreePayments/*.{png,svg}')
-		.pipe(dest('dist/nodes/CashfreePayments/'));
+	return src('nodes/**/*.{png,svg}')
+		.pipe(dest('dist/nodes/'));
 }
 
 function copyPackageFiles() {
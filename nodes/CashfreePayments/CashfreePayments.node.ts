@@ -1,13 +1,256 @@
 import type {
+	ICredentialDataDecryptedObject,
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
+	IDataObject,
+	IBinaryData,
+	IBinaryKeyData,
 	IExecuteFunctions,
+	IHttpRequestOptions,
+	ILoadOptionsFunctions,
+	INode,
+	JsonObject,
+	IN8nHttpFullResponse,
+	INodeCredentialTestResult,
 	INodeExecutionData,
+	INodeListSearchItems,
+	INodeListSearchResult,
+	INodePropertyMode,
 	INodeType,
 	INodeTypeDescription,
+	IPollFunctions,
 } from 'n8n-workflow';
-import { NodeApiError } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError, sleep } from 'n8n-workflow';
 import * as crypto from 'crypto';
+import type { QrErrorCorrectionLevel } from './QrCode';
+import { encodeQrCode, renderQrCodePng, renderQrCodeSvg } from './QrCode';
+
+interface PayoutAuthToken {
+	token: string;
+	expiresAt: number;
+}
+
+export interface CashfreeErrorDetails {
+	message: string;
+	httpCode?: number;
+	code?: string;
+	type?: string;
+	help?: string;
+	subCode?: string;
+	requestId?: string;
+}
+
+// Error raised for a Cashfree API failure outside of helpers.httpRequest (payout fetch calls, authorization).
+// It is converted into a NodeApiError together with httpRequest failures in execute().
+class CashfreeApiError extends Error {
+	constructor(prefix: string, readonly details: CashfreeErrorDetails) {
+		super(`${prefix}: ${details.message}${details.subCode ? ` (${details.subCode})` : ''}`);
+		this.name = 'CashfreeApiError';
+	}
+}
+
+export interface RetryOptions {
+	maxRetries: number;
+	baseDelay: number;
+}
+
+interface WaitOptions {
+	pollInterval: number;
+	timeout: number;
+}
+
+// Error raised when a polled order, payment link or refund does not reach a terminal status in time.
+// It is reported separately from API failures, since the entity was created and may still complete.
+class CashfreeWaitTimeoutError extends Error {
+	constructor(readonly resource: string, readonly lastStatus: string, readonly lastResponse: IDataObject) {
+		super(`Timed out waiting for ${resource} to reach a terminal status (last status: ${lastStatus || 'unknown'})`);
+		this.name = 'CashfreeWaitTimeoutError';
+	}
+}
+
+// helpers.httpRequest signature, so payout authorization can also run from the credential test context
+type HttpRequestFunction = (options: IHttpRequestOptions) => Promise<any>;
+
+// Collects the parameter violations of one item, so all of them can be reported in a single error
+class ParameterValidator {
+	private static readonly ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+	private static readonly EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+	private static readonly IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+
+	readonly violations: string[] = [];
+
+	// Letters, digits, "_" and "-" within the given length
+	id(field: string, value: string, min: number, max: number): void {
+		if (!value) return;
+		if (!ParameterValidator.ID_PATTERN.test(value) || value.length < min || value.length > max) {
+			this.violations.push(`${field} must be ${min}-${max} characters of letters, digits, "_" or "-"`);
+		}
+	}
+
+	length(field: string, value: string, min: number, max: number): void {
+		if (!value) return;
+		if (value.length < min || value.length > max) {
+			this.violations.push(`${field} must be ${min}-${max} characters long (got ${value.length})`);
+		}
+	}
+
+	email(field: string, value: string): void {
+		if (!value) return;
+		if (!ParameterValidator.EMAIL_PATTERN.test(value) || value.length > 100) {
+			this.violations.push(`${field} must be a valid email address`);
+		}
+	}
+
+	// Indian mobile numbers as 10 digits; international numbers only where allowed, with a + country code
+	phone(field: string, value: string, allowInternational: boolean): void {
+		if (!value) return;
+		if (/^\d{10}$/.test(value) || (allowInternational && /^\+\d{8,15}$/.test(value))) return;
+		this.violations.push(allowInternational
+			? `${field} must be 10 digits or an international number starting with + and the country code`
+			: `${field} must be 10 digits without country code`);
+	}
+
+	ifsc(field: string, value: string): void {
+		if (!value) return;
+		if (!ParameterValidator.IFSC_PATTERN.test(value)) {
+			this.violations.push(`${field} must be an 11 character IFSC code, e.g. SBIN0001234`);
+		}
+	}
+
+	url(field: string, value: string, httpsOnly: boolean): void {
+		if (!value) return;
+		let protocol = '';
+		try {
+			protocol = new URL(value).protocol;
+		} catch {
+			// Reported below as an invalid URL
+		}
+		if (protocol !== 'https:' && (httpsOnly || protocol !== 'http:')) {
+			this.violations.push(`${field} must be a valid ${httpsOnly ? 'HTTPS' : 'HTTP(S)'} URL`);
+		} else if (value.length > 250) {
+			this.violations.push(`${field} must be at most 250 characters long`);
+		}
+	}
+
+	throwIfInvalid(node: INode, itemIndex: number): void {
+		if (this.violations.length === 0) return;
+		throw new NodeOperationError(node, `Invalid parameters: ${this.violations.join('; ')}`, {
+			description: this.violations.join('\n'),
+			itemIndex,
+		});
+	}
+}
+
+// Resource locator modes shared by the payment link fields: a merchant dashboard URL or the plain link ID.
+// The customer-facing link_url carries a short code instead of the link ID, so it is not accepted.
+const LINK_LOCATOR_MODES: INodePropertyMode[] = [
+	{
+		displayName: 'By Dashboard URL',
+		name: 'url',
+		type: 'string',
+		placeholder: 'https://merchant.cashfree.com/merchants/pg/payment-links/link_001',
+		extractValue: {
+			type: 'regex',
+			regex: 'https?://merchant\\.cashfree\\.com/\\S*?links/([A-Za-z0-9_-]+)',
+		},
+		validation: [
+			{
+				type: 'regex',
+				properties: {
+					regex: 'https?://merchant\\.cashfree\\.com/\\S*?links/[A-Za-z0-9_-]+.*',
+					errorMessage: 'Not a Cashfree dashboard payment link URL. The customer link_url cannot be used, enter the link ID instead.',
+				},
+			},
+		],
+	},
+	{
+		displayName: 'By ID',
+		name: 'id',
+		type: 'string',
+		placeholder: 'link_001',
+	},
+];
+
+// Resource locator modes for order fields: a dashboard order URL or the plain order ID
+const ORDER_LOCATOR_MODES: INodePropertyMode[] = [
+	{
+		displayName: 'By URL',
+		name: 'url',
+		type: 'string',
+		placeholder: 'https://merchant.cashfree.com/merchants/pg/transactions/orders/order_001',
+		extractValue: {
+			type: 'regex',
+			regex: 'https?://\\S+?/orders/([A-Za-z0-9_-]+)',
+		},
+		validation: [
+			{
+				type: 'regex',
+				properties: {
+					regex: 'https?://\\S+?/orders/[A-Za-z0-9_-]+.*',
+					errorMessage: 'Not a Cashfree order URL',
+				},
+			},
+		],
+	},
+	{
+		displayName: 'By ID',
+		name: 'id',
+		type: 'string',
+		placeholder: 'order_001',
+	},
+];
+
+// Decimal places of the currencies whose minor unit differs from the usual two (ISO 4217)
+const CURRENCY_PRECISION: { [currency: string]: number } = {
+	BHD: 3,
+	CLP: 0,
+	ISK: 0,
+	JOD: 3,
+	JPY: 0,
+	KRW: 0,
+	KWD: 3,
+	OMR: 3,
+	TND: 3,
+	UGX: 0,
+	VND: 0,
+	XAF: 0,
+	XOF: 0,
+};
+
+// Operations that authenticate with the Payout credential fields instead of the Payment Gateway ones
+const PAYOUT_OPERATIONS = [
+	'createCashgram',
+	'deactivateCashgram',
+	'createTransfer',
+	'createBatchTransfer',
+	'getTransferStatus',
+	'addBeneficiary',
+	'getBeneficiary',
+	'getBeneficiaryId',
+	'removeBeneficiary',
+];
 
 export class CashfreePayments implements INodeType {
+	// Payout bearer tokens keyed by credential and environment, shared across items and executions
+	private static payoutTokenCache = new Map<string, PayoutAuthToken>();
+
+	// Refresh tokens this long before Cashfree's reported expiry to absorb clock skew and request latency
+	private static readonly PAYOUT_TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+	// Page size requested from list endpoints that accept a pagination object
+	private static readonly PAGE_SIZE = 100;
+
+	// Upper bound for a single backoff wait, including waits requested through Retry-After
+	private static readonly MAX_RETRY_DELAY_MS = 30 * 1000;
+
+	// Network errors after which a request that is safe to repeat may be retried
+	private static readonly RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'ECONNREFUSED', 'EAI_AGAIN'];
+
+	// Statuses after which an order, payment link or refund no longer changes
+	private static readonly ORDER_TERMINAL_STATUSES = ['PAID', 'EXPIRED', 'TERMINATED'];
+	private static readonly LINK_TERMINAL_STATUSES = ['PAID', 'EXPIRED', 'CANCELLED'];
+	private static readonly REFUND_TERMINAL_STATUSES = ['SUCCESS', 'CANCELLED'];
+
 	// Helper method to generate encrypted signature
 	private static generateEncryptedSignature(clientIdWithTimestamp: string, publicKeyContent: string): string {
 		try {
@@ -46,15 +289,492 @@ export class CashfreePayments implements INodeType {
 		return `${clientId}.${epochTimestamp}`;
 	}
 
+	// Helper method to get Payment Gateway base URL (also used by the polling trigger)
+	static getPgBaseUrl(credentials: ICredentialDataDecryptedObject): string {
+		if (credentials.environment === 'custom') {
+			if (!credentials.pgBaseUrl) {
+				throw new Error('Payment Gateway Base URL is required when the Custom environment is selected. Please configure it in the credentials.');
+			}
+			return String(credentials.pgBaseUrl).trim().replace(/\/+$/, '');
+		}
+		return credentials.environment === 'sandbox'
+			? 'https://sandbox.cashfree.com/pg'
+			: 'https://api.cashfree.com/pg';
+	}
+
 	// Helper method to get payout base URL
-	private static getPayoutBaseUrl(environment: string): string {
-		return environment === 'sandbox'
+	private static getPayoutBaseUrl(credentials: ICredentialDataDecryptedObject): string {
+		if (credentials.environment === 'custom') {
+			if (!credentials.payoutBaseUrl) {
+				throw new Error('Payout Base URL is required when the Custom environment is selected. Please configure it in the credentials.');
+			}
+			return String(credentials.payoutBaseUrl).trim().replace(/\/+$/, '');
+		}
+		return credentials.environment === 'sandbox'
 			? 'https://sandbox.cashfree.com'
 			: 'https://payout-api.cashfree.com';
 	}
 
+	// Helper method to build Payment Gateway request headers (also used by the polling trigger)
+	static getPgHeaders(credentials: ICredentialDataDecryptedObject, requestId = '', idempotencyKey = ''): IDataObject {
+		const headers: IDataObject = {
+			'Content-Type': 'application/json',
+			'x-api-version': credentials.apiVersion || '2025-01-01',
+			'x-client-id': credentials.clientId,
+			'x-client-secret': credentials.clientSecret,
+		};
+
+		if (requestId) headers['x-request-id'] = requestId;
+		if (idempotencyKey) headers['x-idempotency-key'] = idempotencyKey;
+
+		return headers;
+	}
+
+	// Helper method to read an idempotency key parameter, generating a UUID when it is empty and auto-generation is enabled
+	private static getIdempotencyKey(context: IExecuteFunctions, parameterName: string, itemIndex: number): string {
+		const idempotencyKey = context.getNodeParameter(parameterName, itemIndex, '') as string;
+		if (idempotencyKey) {
+			return idempotencyKey;
+		}
+		const autoGenerate = context.getNodeParameter('autoIdempotencyKey', itemIndex, true) as boolean;
+		return autoGenerate ? crypto.randomUUID() : '';
+	}
+
+	// Helper method to compute the wait before the next attempt: Retry-After when Cashfree sends one, else exponential backoff with jitter
+	private static getRetryDelay(attempt: number, baseDelay: number, retryAfter?: string | null): number {
+		if (retryAfter) {
+			const seconds = Number(retryAfter);
+			const retryAfterMs = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+			if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+				return Math.min(retryAfterMs, CashfreePayments.MAX_RETRY_DELAY_MS);
+			}
+		}
+		const backoff = baseDelay * 2 ** attempt;
+		return Math.min(backoff + Math.random() * baseDelay, CashfreePayments.MAX_RETRY_DELAY_MS);
+	}
+
+	// Helper method to retry a request on 429/5xx (and network errors) with backoff.
+	// Requests that are not safe to repeat are sent exactly once, so a retry can never create a duplicate.
+	private static async requestWithRetry<T>(send: () => Promise<T>, retry: RetryOptions, safeToRetry: boolean): Promise<T> {
+		for (let attempt = 0; ; attempt++) {
+			const canRetry = safeToRetry && attempt < retry.maxRetries;
+			let retryAfter: string | undefined;
+
+			try {
+				return await send();
+			} catch (error) {
+				const err = error as { code?: string; httpCode?: string; response?: { status?: number; headers?: IDataObject } };
+				const status = err.response?.status ?? Number(err.httpCode);
+				const retryableStatus = status === 429 || status >= 500;
+				const retryableNetworkError = !!err.code && CashfreePayments.RETRYABLE_ERROR_CODES.includes(err.code);
+				if (!canRetry || !(retryableStatus || retryableNetworkError)) {
+					throw error;
+				}
+				retryAfter = err.response?.headers?.['retry-after'] as string | undefined;
+			}
+
+			await sleep(CashfreePayments.getRetryDelay(attempt, retry.baseDelay, retryAfter));
+		}
+	}
+
+	// Helper method to send a Payment Gateway request with retries. Reads and requests carrying
+	// an idempotency key are retried; other writes only when the caller marks them safe.
+	private static async httpRequestWithRetry(
+		context: IExecuteFunctions | IPollFunctions,
+		retry: RetryOptions,
+		options: IHttpRequestOptions,
+		safeToRetry?: boolean,
+	): Promise<any> {
+		const safe = safeToRetry ?? (options.method === 'GET' || !!options.headers?.['x-idempotency-key']);
+		return CashfreePayments.requestWithRetry(() => context.helpers.httpRequest(options), retry, safe);
+	}
+
+	// Helper method to fetch every page of a Payment Gateway list endpoint (also used by the polling trigger).
+	// Cashfree returns the next page cursor in the x-next-cursor header (or a body-level cursor for
+	// POST search endpoints); records are either the response array itself or its data property.
+	static async pgRequestAllItems(
+		context: IExecuteFunctions | IPollFunctions,
+		retry: RetryOptions,
+		options: IHttpRequestOptions,
+		returnAll: boolean,
+		limit: number,
+	): Promise<IDataObject[]> {
+		const records: IDataObject[] = [];
+		let cursor: string | undefined;
+
+		do {
+			const requestOptions: IHttpRequestOptions = { ...options, json: true, returnFullResponse: true };
+			if (options.method === 'POST') {
+				requestOptions.body = {
+					...(options.body as IDataObject),
+					pagination: { limit: CashfreePayments.PAGE_SIZE, ...(cursor ? { cursor } : {}) },
+				};
+			} else if (cursor) {
+				requestOptions.qs = { ...options.qs, cursor };
+			}
+
+			// List and search endpoints only read data, so every page is safe to retry
+			const response = (await CashfreePayments.httpRequestWithRetry(context, retry, requestOptions, true)) as IN8nHttpFullResponse;
+			const body = response.body as IDataObject | IDataObject[] | null;
+
+			let page: IDataObject[] = [];
+			let bodyCursor: string | undefined;
+			if (Array.isArray(body)) {
+				page = body;
+			} else if (body) {
+				page = Array.isArray(body.data) ? (body.data as IDataObject[]) : [body];
+				bodyCursor = body.cursor as string | undefined;
+			}
+			records.push(...page);
+
+			const nextCursor = (response.headers['x-next-cursor'] as string | undefined) ?? bodyCursor;
+
+			// Stop on a repeated cursor as well, so a misbehaving endpoint cannot loop forever
+			cursor = nextCursor && nextCursor !== cursor && page.length > 0 ? nextCursor : undefined;
+		} while (cursor && (returnAll || records.length < limit));
+
+		return returnAll ? records : records.slice(0, limit);
+	}
+
+	// Helper method to poll a Payment Gateway entity until its status field reaches a terminal value.
+	// The create response is checked first, so entities that are already final need no extra request.
+	private static async waitForTerminalStatus(
+		context: IExecuteFunctions,
+		retry: RetryOptions,
+		wait: WaitOptions,
+		options: IHttpRequestOptions,
+		initial: IDataObject,
+		statusField: string,
+		terminalStatuses: string[],
+		resource: string,
+	): Promise<IDataObject> {
+		const deadline = Date.now() + wait.timeout * 1000;
+		const interval = wait.pollInterval * 1000;
+		let entity = initial;
+
+		while (!terminalStatuses.includes(String(entity?.[statusField] ?? ''))) {
+			if (Date.now() + interval > deadline) {
+				throw new CashfreeWaitTimeoutError(resource, String(entity?.[statusField] ?? ''), entity);
+			}
+
+			await sleep(interval);
+			entity = (await CashfreePayments.httpRequestWithRetry(context, retry, { ...options, method: 'GET', json: true })) as IDataObject;
+		}
+
+		return entity;
+	}
+
+	// Helper method to reduce a refund entity to the fields support needs to answer a refund query
+	private static simplifyRefund(refund: IDataObject): IDataObject {
+		const refundSpeed = (refund.refund_speed ?? {}) as IDataObject;
+		return {
+			order_id: refund.order_id,
+			refund_id: refund.refund_id,
+			cf_refund_id: refund.cf_refund_id,
+			cf_payment_id: refund.cf_payment_id,
+			refund_status: refund.refund_status,
+			status_description: refund.status_description,
+			refund_arn: refund.refund_arn ?? null,
+			refund_amount: refund.refund_amount,
+			refund_currency: refund.refund_currency,
+			refund_type: refund.refund_type,
+			refund_mode: refund.refund_mode,
+			refund_speed: refundSpeed.processed ?? refundSpeed.accepted ?? refundSpeed.requested,
+			refund_note: refund.refund_note,
+			created_at: refund.created_at,
+			processed_at: refund.processed_at ?? null,
+		};
+	}
+
+	// Helper method to round and validate an amount to the precision of its currency. Amounts given in
+	// minor units (e.g. paise) must be integers; major-unit amounts may only differ from the rounded value
+	// by floating-point noise (0.1 + 0.2), not by real extra digits (99.999). Invalid amounts are recorded
+	// on the validator and returned as NaN, so they are reported together with the item's other violations.
+	private static normalizeAmount(validator: ParameterValidator, value: number, currency: string, inMinorUnits: boolean, field: string): number {
+		const precision = CURRENCY_PRECISION[currency.trim().toUpperCase()] ?? 2;
+		const factor = Math.pow(10, precision);
+
+		if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+			validator.violations.push(`${field} must be a number greater than 0`);
+			return NaN;
+		}
+
+		if (inMinorUnits) {
+			if (!Number.isInteger(value)) {
+				validator.violations.push(`${field} must be a whole number of minor units when amounts are given in minor units, got ${value}`);
+				return NaN;
+			}
+			return value / factor;
+		}
+
+		const minorUnits = Math.round(value * factor);
+		if (Math.abs(value * factor - minorUnits) > 1e-6) {
+			validator.violations.push(`${field} ${value} has more than ${precision} decimal place${precision === 1 ? '' : 's'}, which ${currency} does not support`);
+			return NaN;
+		}
+		if (minorUnits === 0) {
+			validator.violations.push(`${field} ${value} is below the smallest ${currency} unit`);
+			return NaN;
+		}
+		return minorUnits / factor;
+	}
+
+	// Helper method to normalise a phone number like "+91 98765-43210" to the 10 digit form Cashfree expects.
+	// International numbers keep their + country code; anything unrecognised is returned for validation to report.
+	private static normalizePhone(context: IExecuteFunctions, value: string, itemIndex: number): string {
+		if (!value || !context.getNodeParameter('normalizePhoneNumbers', itemIndex, true)) {
+			return value;
+		}
+
+		const compact = value.trim().replace(/[\s\-().]/g, '');
+		const indian = compact.match(/^(?:\+91|0091|91|0)?([6-9]\d{9})$/);
+		if (indian) {
+			return indian[1];
+		}
+		return /^\+\d+$/.test(compact) ? compact : value;
+	}
+
+	// Helper method to validate Easy Split rows and convert them into the order_splits request field.
+	// Cashfree rejects orders that mix amount and percentage splits or split more than the order amount.
+	// Split amounts are normalised like the order amount, so they follow the same currency and unit setting.
+	private static buildOrderSplits(
+		validator: ParameterValidator,
+		rows: IDataObject[],
+		orderAmount: number,
+		currency: string,
+		inMinorUnits: boolean,
+	): IDataObject[] {
+		const splitTypes = new Set(rows.map((row) => row.split_type as string));
+		if (splitTypes.size > 1) {
+			validator.violations.push('Order splits must all use amounts or all use percentages, not a mix of both');
+			return [];
+		}
+
+		const splits = rows.map((row, index) => {
+			const vendorId = String(row.vendor_id ?? '').trim();
+			if (!vendorId) {
+				validator.violations.push(`Order split ${index + 1}: Vendor ID is required`);
+			}
+			if (row.split_type === 'percentage') {
+				const value = Number(row.value);
+				if (!Number.isFinite(value) || value <= 0) {
+					validator.violations.push(`Order split ${index + 1}: value must be greater than 0`);
+				}
+				return { vendor_id: vendorId, percentage: value };
+			}
+			return {
+				vendor_id: vendorId,
+				amount: CashfreePayments.normalizeAmount(validator, Number(row.value), currency, inMinorUnits, `Order split ${index + 1} value`),
+			};
+		});
+
+		// Totals are only meaningful once every row and the order amount are valid
+		const values = splits.map((split) => Number(split.percentage ?? split.amount));
+		if (!values.every((value) => Number.isFinite(value) && value > 0) || !Number.isFinite(orderAmount)) {
+			return splits;
+		}
+
+		if (splitTypes.has('percentage')) {
+			// Compare in hundredths so float sums like 33.33 + 66.67 do not fail the check
+			const total = Math.round(values.reduce((sum, value) => sum + value, 0) * 100);
+			if (total > 100 * 100) {
+				validator.violations.push(`Order split percentages add up to ${total / 100}%, which exceeds 100%`);
+			}
+		} else {
+			// Compare in minor units of the currency, for the same reason
+			const factor = Math.pow(10, CURRENCY_PRECISION[currency.trim().toUpperCase()] ?? 2);
+			const total = Math.round(values.reduce((sum, value) => sum + value, 0) * factor);
+			if (total > Math.round(orderAmount * factor)) {
+				validator.violations.push(`Order split amounts add up to ${total / factor}, which exceeds the order amount of ${orderAmount}`);
+			}
+		}
+
+		return splits;
+	}
+
+	// Helper method to read the wait options of a create operation, or undefined when waiting is disabled
+	private static getWaitOptions(context: IExecuteFunctions, itemIndex: number): WaitOptions | undefined {
+		if (!context.getNodeParameter('waitForTerminalStatus', itemIndex, false)) {
+			return undefined;
+		}
+
+		return {
+			pollInterval: context.getNodeParameter('waitPollInterval', itemIndex, 10) as number,
+			timeout: context.getNodeParameter('waitTimeout', itemIndex, 300) as number,
+		};
+	}
+
+	// Helper method to get Payouts v2 base URL
+	private static getPayoutV2BaseUrl(credentials: ICredentialDataDecryptedObject): string {
+		if (credentials.environment === 'custom') {
+			return `${CashfreePayments.getPayoutBaseUrl(credentials)}/payout`;
+		}
+		return credentials.environment === 'sandbox'
+			? 'https://sandbox.cashfree.com/payout'
+			: 'https://api.cashfree.com/payout';
+	}
+
+	// Helper method to build Payouts v2 request headers. The signature is the same RSA-encrypted
+	// clientId.timestamp used by the v1 authorize call and lets Cashfree skip the IP whitelist check.
+	private static getPayoutV2Headers(credentials: ICredentialDataDecryptedObject): IDataObject {
+		const clientId = String(credentials.payoutClientId).trim();
+		const headers: IDataObject = {
+			'Content-Type': 'application/json',
+			'x-api-version': '2024-01-01',
+			'x-client-id': clientId,
+			'x-client-secret': String(credentials.payoutClientSecret).trim(),
+		};
+
+		if (credentials.payoutPublicKey) {
+			headers['x-cf-signature'] = CashfreePayments.generateEncryptedSignature(
+				CashfreePayments.createClientIdWithTimestamp(clientId),
+				credentials.payoutPublicKey as string
+			);
+		}
+
+		return headers;
+	}
+
+	// Helper method to parse a Cashfree error body into its code, type, message, help and subCode fields.
+	// PG and Payouts v2 return { code, type, message, help }; Payouts v1 returns { status: 'ERROR', subCode, message }.
+	private static parseCashfreeError(body: unknown, httpCode?: number, requestId?: string | null): CashfreeErrorDetails {
+		let data: IDataObject = {};
+		if (typeof body === 'string') {
+			try {
+				data = JSON.parse(body);
+			} catch {
+				data = body.trim() ? { message: body.trim() } : {};
+			}
+		} else if (body && typeof body === 'object' && !Array.isArray(body)) {
+			data = body as IDataObject;
+		}
+
+		const details: CashfreeErrorDetails = {
+			message: (data.message as string) || (httpCode ? `Request failed with status ${httpCode}` : 'Unknown error'),
+		};
+
+		if (httpCode) details.httpCode = httpCode;
+		if (data.code) details.code = String(data.code);
+		if (data.type) details.type = String(data.type);
+		if (data.help) details.help = String(data.help);
+		if (data.subCode) details.subCode = String(data.subCode);
+		if (requestId) details.requestId = requestId;
+
+		return details;
+	}
+
+	// Helper method to extract Cashfree error details from anything thrown while processing an item (also used by the polling trigger)
+	static getCashfreeErrorDetails(error: unknown): CashfreeErrorDetails | undefined {
+		if (error instanceof CashfreeApiError) {
+			return error.details;
+		}
+
+		// helpers.httpRequest rejects with the HTTP client error, which carries the response
+		const response = (error as { response?: { status?: number; data?: unknown; body?: unknown; headers?: IDataObject } })?.response;
+		if (response?.status) {
+			return CashfreePayments.parseCashfreeError(
+				response.data ?? response.body,
+				response.status,
+				response.headers?.['x-request-id'] as string | undefined,
+			);
+		}
+
+		return undefined;
+	}
+
+	// Helper method to turn a Cashfree failure into a NodeApiError with a readable description and the HTTP status (also used by the polling trigger)
+	static toNodeApiError(context: IExecuteFunctions | IPollFunctions, details: CashfreeErrorDetails, itemIndex?: number): NodeApiError {
+		const description = [
+			details.code ? `Code: ${details.code}` : '',
+			details.type ? `Type: ${details.type}` : '',
+			details.subCode ? `Sub code: ${details.subCode}` : '',
+			details.requestId ? `Request ID: ${details.requestId}` : '',
+			details.help ? details.help : '',
+		].filter((line) => line !== '').join(' | ');
+
+		// NodeApiError keeps the raw error as JSON, so only the fields Cashfree actually returned are copied
+		const errorResponse: JsonObject = { message: details.message };
+		if (details.httpCode !== undefined) errorResponse.httpCode = details.httpCode;
+		if (details.code !== undefined) errorResponse.code = details.code;
+		if (details.type !== undefined) errorResponse.type = details.type;
+		if (details.help !== undefined) errorResponse.help = details.help;
+		if (details.subCode !== undefined) errorResponse.subCode = details.subCode;
+		if (details.requestId !== undefined) errorResponse.requestId = details.requestId;
+
+		return new NodeApiError(context.getNode(), errorResponse, {
+			message: `Cashfree API error: ${details.message}`,
+			description: description || undefined,
+			httpCode: details.httpCode ? String(details.httpCode) : undefined,
+			itemIndex,
+		});
+	}
+
+	// Helper method to detect a terminate order rejection caused by a payment that is still being processed
+	private static isPaymentInProgressError(details: CashfreeErrorDetails): boolean {
+		if (!details.httpCode || details.httpCode < 400 || details.httpCode >= 500) {
+			return false;
+		}
+		return /payment.*(in progress|pending|processing)|transaction.*(in progress|pending)/i.test(details.message);
+	}
+
+	// Helper method to encode form fields and one file as a multipart/form-data body
+	private static buildMultipartBody(
+		fields: IDataObject,
+		file: { name: string; fileName: string; mimeType: string; content: Buffer },
+	): { body: Buffer; contentType: string } {
+		const boundary = `----n8nCashfree${crypto.randomBytes(12).toString('hex')}`;
+		const parts: Buffer[] = [];
+
+		for (const [name, value] of Object.entries(fields)) {
+			parts.push(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`));
+		}
+
+		const fileName = file.fileName.replace(/"/g, '');
+		parts.push(Buffer.from(
+			`--${boundary}\r\nContent-Disposition: form-data; name="${file.name}"; filename="${fileName}"\r\nContent-Type: ${file.mimeType}\r\n\r\n`,
+		));
+		parts.push(file.content);
+		parts.push(Buffer.from(`\r\n--${boundary}--\r\n`));
+
+		return { body: Buffer.concat(parts), contentType: `multipart/form-data; boundary=${boundary}` };
+	}
+
+	// Helper method to render the QR code of a payment link as PNG or SVG binary data
+	private static async generateLinkQrCode(context: IExecuteFunctions, link: IDataObject, itemIndex: number): Promise<IBinaryData> {
+		const format = context.getNodeParameter('qr_format', itemIndex, 'png') as string;
+		const size = context.getNodeParameter('qr_size', itemIndex, 300) as number;
+		const errorCorrectionLevel = context.getNodeParameter('qr_error_correction', itemIndex, 'M') as QrErrorCorrectionLevel;
+
+		if (!link.link_url) {
+			throw new Error('The payment link response has no link_url to encode as a QR code');
+		}
+
+		const modules = encodeQrCode(String(link.link_url), errorCorrectionLevel);
+		const fileName = `${link.link_id ?? 'payment_link'}_qr.${format}`;
+
+		return format === 'svg'
+			? await context.helpers.prepareBinaryData(Buffer.from(renderQrCodeSvg(modules, size), 'utf8'), fileName, 'image/svg+xml')
+			: await context.helpers.prepareBinaryData(renderQrCodePng(modules, size), fileName, 'image/png');
+	}
+
+	// Helper method to check a payout v1 response body, raising a CashfreeApiError for the
+	// 200 responses with status ERROR that Payouts v1 uses for business failures
+	private static parsePayoutResponse(data: any, prefix: string): any {
+		if (data?.status === 'ERROR') {
+			throw new CashfreeApiError(prefix, CashfreePayments.parseCashfreeError(data));
+		}
+
+		return data;
+	}
+
 	// Helper method to get authorization token for payout operations
-	private static async getPayoutAuthToken(clientId: string, clientSecret: string, publicKey: string, environment: string): Promise<string> {
+	private static async getPayoutAuthToken(
+		request: HttpRequestFunction,
+		clientId: string,
+		clientSecret: string,
+		publicKey: string,
+		baseUrl: string,
+	): Promise<PayoutAuthToken> {
 		try {
 			// Validate inputs
 			if (!clientId || clientId.trim() === '') {
@@ -70,41 +790,156 @@ export class CashfreePayments implements INodeType {
 			const clientIdWithTimestamp = CashfreePayments.createClientIdWithTimestamp(clientId);
 			const signature = CashfreePayments.generateEncryptedSignature(clientIdWithTimestamp, publicKey);
 
-			const baseUrl = CashfreePayments.getPayoutBaseUrl(environment);
-
-			const response = await fetch(`${baseUrl}/payout/v1/authorize`, {
+			const response = (await request({
 				method: 'POST',
+				url: `${baseUrl}/payout/v1/authorize`,
 				headers: {
 					'Content-Type': 'application/json',
 					'X-Client-Id': clientId.trim(),
 					'X-Client-Secret': clientSecret.trim(),
 					'X-Cf-Signature': signature,
 				},
-			});
+				json: true,
+				returnFullResponse: true,
+				ignoreHttpStatusErrors: true,
+			})) as IN8nHttpFullResponse;
+			const requestId = response.headers?.['x-request-id'] as string | undefined;
 
-			if (!response.ok) {
-				const errorData = await response.text();
-				throw new Error(`Authorization failed: ${response.status} - ${errorData}`);
+			if (response.statusCode < 200 || response.statusCode >= 300) {
+				throw new CashfreeApiError(
+					'Authorization failed',
+					CashfreePayments.parseCashfreeError(response.body, response.statusCode, requestId),
+				);
 			}
 
-			const authData: any = await response.json();
+			const authData: any = response.body;
 
 			// Extract token from SUCCESS response
 			if (authData.status === 'SUCCESS' && authData.data && authData.data.token) {
-				return authData.data.token;
+				// Cashfree reports expiry as epoch seconds; fall back to its documented 10 minute lifetime
+				const expiry = Number(authData.data.expiry);
+				const expiresAt = expiry > 0
+					? (expiry < 1e12 ? expiry * 1000 : expiry)
+					: Date.now() + 10 * 60 * 1000;
+				return { token: authData.data.token, expiresAt };
 			}
 
 			// Handle error responses
 			if (authData.status === 'ERROR') {
-				throw new Error(`Cashfree API Error: ${authData.message} (${authData.subCode})`);
+				throw new CashfreeApiError(
+					'Authorization failed',
+					CashfreePayments.parseCashfreeError(authData, response.statusCode, requestId),
+				);
 			}
 
 			throw new Error(`No valid token found in authorization response: ${JSON.stringify(authData)}`);
 		} catch (error) {
+			if (error instanceof CashfreeApiError) {
+				throw error;
+			}
 			throw new Error(`Failed to get authorization token: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
 	}
 
+	// Helper method to get a payout token from the cache, authorizing only when it is missing or about to expire
+	private static async getCachedPayoutAuthToken(
+		request: HttpRequestFunction,
+		credentials: ICredentialDataDecryptedObject,
+		forceRefresh = false,
+	): Promise<string> {
+		const clientId = String(credentials.payoutClientId).trim();
+		const clientSecret = String(credentials.payoutClientSecret).trim();
+		const payoutBaseUrl = CashfreePayments.getPayoutBaseUrl(credentials);
+
+		// Hash the secret into the key so rotated or different credentials never share a token
+		const cacheKey = crypto
+			.createHash('sha256')
+			.update(`${payoutBaseUrl}:${clientId}:${clientSecret}`)
+			.digest('hex');
+
+		const cached = CashfreePayments.payoutTokenCache.get(cacheKey);
+		if (!forceRefresh && cached && cached.expiresAt - CashfreePayments.PAYOUT_TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+			return cached.token;
+		}
+
+		const authToken = await CashfreePayments.getPayoutAuthToken(
+			request,
+			clientId,
+			clientSecret,
+			credentials.payoutPublicKey as string,
+			payoutBaseUrl
+		);
+		CashfreePayments.payoutTokenCache.set(cacheKey, authToken);
+
+		return authToken.token;
+	}
+
+	// Helper method to check whether a payout response reports an invalid or expired bearer token
+	private static isPayoutTokenRejected(data: any): boolean {
+		return data?.status === 'ERROR' && String(data.subCode) === '403' && /token/i.test(String(data.message));
+	}
+
+	// Helper method to call a payout endpoint with the cached token, refreshing it once if Cashfree rejects it
+	private static async payoutRequest(
+		context: IExecuteFunctions,
+		credentials: ICredentialDataDecryptedObject,
+		retry: RetryOptions,
+		path: string,
+		body?: IDataObject,
+		method: 'GET' | 'POST' = 'POST',
+		safeToRetry = method === 'GET',
+	): Promise<any> {
+		const payoutBaseUrl = CashfreePayments.getPayoutBaseUrl(credentials);
+		const request: HttpRequestFunction = async (options) => context.helpers.httpRequest(options);
+
+		const send = async (forceRefresh: boolean) => {
+			const authToken = await CashfreePayments.getCachedPayoutAuthToken(request, credentials, forceRefresh);
+			return request({
+				method,
+				url: `${payoutBaseUrl}${path}`,
+				headers: {
+					'Content-Type': 'application/json',
+					'Authorization': `Bearer ${authToken}`,
+				},
+				body,
+				json: true,
+			});
+		};
+
+		// Payout v1 takes no idempotency key, so only reads and calls that do not create anything are
+		// retried. A create whose response was lost would otherwise come back as "already exists".
+		try {
+			const data = await CashfreePayments.requestWithRetry(() => send(false), retry, safeToRetry);
+			if (!CashfreePayments.isPayoutTokenRejected(data)) {
+				return data;
+			}
+		} catch (error) {
+			if ((error as { response?: { status?: number } }).response?.status !== 401) {
+				throw error;
+			}
+		}
+
+		// A rejected token means the first attempt was not processed, so it is always safe to send once more
+		return CashfreePayments.requestWithRetry(() => send(true), retry, safeToRetry);
+	}
+
+	// Helper method to turn a payout authorization failure into an actionable credential test message
+	private static describePayoutAuthError(message: string): string {
+		if (/failed to generate signature/i.test(message)) {
+			return 'Invalid Payout Public Key: the key could not be parsed. Paste the full key including the BEGIN/END PUBLIC KEY lines.';
+		}
+		if (/ip/i.test(message) && /whitelist/i.test(message)) {
+			return 'IP not whitelisted: add the public IP of this n8n instance in the Cashfree Payouts dashboard, or use the Payout Public Key for two-factor authentication.';
+		}
+		if (/signature/i.test(message)) {
+			return 'Bad signature: the Payout Public Key does not match this Payout Client ID and environment.';
+		}
+		if (/client ?id|client ?secret|credentials|401/i.test(message)) {
+			return 'Invalid Payout Client ID or Client Secret for the selected environment.';
+		}
+		return message;
+	}
+
 	description: INodeTypeDescription = {
 		displayName: 'Cashfree Payments',
 		name: 'cashfreePayments',
@@ -121,6 +956,7 @@ export class CashfreePayments implements INodeType {
 			{
 				name: 'cashfreeApi',
 				required: true,
+				testedBy: 'cashfreeApiTest',
 			},
 		],
 		properties: [
@@ -135,6 +971,36 @@ export class CashfreePayments implements INodeType {
 						description: 'Create a new order',
 						action: 'Create a new order',
 					},
+					{
+						name: 'Get Order',
+						value: 'getOrder',
+						description: 'Get the details and status of an order',
+						action: 'Get an order',
+					},
+					{
+						name: 'Get Payments for Order',
+						value: 'getPaymentsForOrder',
+						description: 'Get all payment attempts made for an order',
+						action: 'Get payments for order',
+					},
+					{
+						name: 'Get Payment by ID',
+						value: 'getPaymentById',
+						description: 'Get a single payment attempt for an order',
+						action: 'Get a payment by ID',
+					},
+					{
+						name: 'Order Pay',
+						value: 'orderPay',
+						description: 'Start a UPI or netbanking payment for an order using its payment session ID',
+						action: 'Pay an order',
+					},
+					{
+						name: 'Terminate Order',
+						value: 'terminateOrder',
+						description: 'Terminate an active order so it can no longer be paid',
+						action: 'Terminate an order',
+					},
 					{
 						name: 'Create Payment Link',
 						value: 'createPaymentLink',
@@ -165,6 +1031,12 @@ export class CashfreePayments implements INodeType {
 						description: 'Create a refund for an order',
 						action: 'Create a refund',
 					},
+					{
+						name: 'Get Refund',
+						value: 'getRefund',
+						description: 'Get a single refund of an order by its refund ID',
+						action: 'Get a refund',
+					},
 					{
 						name: 'Get All Refunds for Order',
 						value: 'getAllRefundsForOrder',
@@ -172,40 +1044,190 @@ export class CashfreePayments implements INodeType {
 						action: 'Get all refunds for order',
 					},
 					{
-						name: 'Create Cashgram',
-						value: 'createCashgram',
-						description: 'Create a Cashgram payout link',
-						action: 'Create a Cashgram',
+						name: 'Get Settlements',
+						value: 'getSettlements',
+						description: 'Get all settlements within a date range',
+						action: 'Get settlements',
 					},
 					{
-						name: 'Deactivate Cashgram',
-						value: 'deactivateCashgram',
-						description: 'Deactivate an existing Cashgram payout link',
-						action: 'Deactivate a Cashgram',
+						name: 'Get Settlement for Order',
+						value: 'getSettlementForOrder',
+						description: 'Get the settlement details of a specific order',
+						action: 'Get settlement for order',
 					},
-				],
-				default: 'createOrder',
-				noDataExpression: true,
-			},
-
-            // Order properties
-            {
-                displayName: 'Order Amount',
-                name: 'orderAmount',
-                type: 'number',
-                displayOptions: {
-                    show: {
-                        operation: ['createOrder'],
-                    },
-                },
-                default: 0,
-                required: true,
-            },
-            {
-                displayName: 'Order Currency',
-                name: 'orderCurrency',
-                type: 'string',
-                displayOptions: {
+					{
+						name: 'Get Settlement Reconciliation',
+						value: 'getSettlementReconciliation',
+						description: 'Get the transaction-level settlement reconciliation report',
+						action: 'Get settlement reconciliation',
+					},
+					{
+						name: 'Create Vendor',
+						value: 'createVendor',
+						description: 'Onboard an Easy Split vendor with bank account or UPI details',
+						action: 'Create a vendor',
+					},
+					{
+						name: 'Update Vendor',
+						value: 'updateVendor',
+						description: 'Update the details or status of an Easy Split vendor',
+						action: 'Update a vendor',
+					},
+					{
+						name: 'Get Vendor',
+						value: 'getVendor',
+						description: 'Get an Easy Split vendor and its onboarding status',
+						action: 'Get a vendor',
+					},
+					{
+						name: 'Get Vendor Settlements',
+						value: 'getVendorSettlements',
+						description: 'Get split and settlement details of vendors for a date range',
+						action: 'Get vendor settlements',
+					},
+					{
+						name: 'Get Disputes for Order',
+						value: 'getDisputesForOrder',
+						description: 'Get all disputes raised against an order',
+						action: 'Get disputes for order',
+					},
+					{
+						name: 'Get Dispute',
+						value: 'getDispute',
+						description: 'Get a dispute by its Cashfree dispute ID',
+						action: 'Get a dispute',
+					},
+					{
+						name: 'Accept Dispute',
+						value: 'acceptDispute',
+						description: 'Accept a dispute and let the customer keep the disputed amount',
+						action: 'Accept a dispute',
+					},
+					{
+						name: 'Submit Dispute Evidence',
+						value: 'submitDisputeEvidence',
+						description: 'Contest a dispute by uploading evidence documents from binary data',
+						action: 'Submit dispute evidence',
+					},
+					{
+						name: 'Create Subscription Plan',
+						value: 'createSubscriptionPlan',
+						description: 'Create a periodic or on-demand subscription plan',
+						action: 'Create a subscription plan',
+					},
+					{
+						name: 'Create Subscription',
+						value: 'createSubscription',
+						description: 'Create a subscription and start mandate authorization',
+						action: 'Create a subscription',
+					},
+					{
+						name: 'Get Subscription',
+						value: 'getSubscription',
+						description: 'Get the details and status of a subscription',
+						action: 'Get a subscription',
+					},
+					{
+						name: 'Pause Subscription',
+						value: 'pauseSubscription',
+						description: 'Pause an active subscription',
+						action: 'Pause a subscription',
+					},
+					{
+						name: 'Resume Subscription',
+						value: 'resumeSubscription',
+						description: 'Resume a paused subscription',
+						action: 'Resume a subscription',
+					},
+					{
+						name: 'Cancel Subscription',
+						value: 'cancelSubscription',
+						description: 'Cancel a subscription',
+						action: 'Cancel a subscription',
+					},
+					{
+						name: 'Charge Subscription',
+						value: 'chargeSubscription',
+						description: 'Raise a charge against an active subscription mandate',
+						action: 'Charge a subscription',
+					},
+					{
+						name: 'Create Cashgram',
+						value: 'createCashgram',
+						description: 'Create a Cashgram payout link',
+						action: 'Create a Cashgram',
+					},
+					{
+						name: 'Deactivate Cashgram',
+						value: 'deactivateCashgram',
+						description: 'Deactivate an existing Cashgram payout link',
+						action: 'Deactivate a Cashgram',
+					},
+					{
+						name: 'Standard Transfer',
+						value: 'createTransfer',
+						description: 'Transfer money to a beneficiary bank account or UPI ID',
+						action: 'Create a standard transfer',
+					},
+					{
+						name: 'Batch Transfer',
+						value: 'createBatchTransfer',
+						description: 'Transfer money to multiple beneficiaries in one request',
+						action: 'Create a batch transfer',
+					},
+					{
+						name: 'Get Transfer Status',
+						value: 'getTransferStatus',
+						description: 'Get the status of a standard transfer',
+						action: 'Get transfer status',
+					},
+					{
+						name: 'Add Beneficiary',
+						value: 'addBeneficiary',
+						description: 'Add a payout beneficiary with bank account or UPI details',
+						action: 'Add a beneficiary',
+					},
+					{
+						name: 'Get Beneficiary',
+						value: 'getBeneficiary',
+						description: 'Get the details of a payout beneficiary',
+						action: 'Get a beneficiary',
+					},
+					{
+						name: 'Get Beneficiary ID by Bank Account',
+						value: 'getBeneficiaryId',
+						description: 'Find the beneficiary ID registered for a bank account and IFSC',
+						action: 'Get beneficiary ID by bank account',
+					},
+					{
+						name: 'Remove Beneficiary',
+						value: 'removeBeneficiary',
+						description: 'Remove a payout beneficiary',
+						action: 'Remove a beneficiary',
+					},
+				],
+				default: 'createOrder',
+				noDataExpression: true,
+			},
+
+            // Order properties
+            {
+                displayName: 'Order Amount',
+                name: 'orderAmount',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createOrder'],
+                    },
+                },
+                default: 0,
+                required: true,
+            },
+            {
+                displayName: 'Order Currency',
+                name: 'orderCurrency',
+                type: 'string',
+                displayOptions: {
                     show: {
                         operation: ['createOrder'],
                     },
@@ -475,6 +1497,60 @@ export class CashfreePayments implements INodeType {
                 default: false,
                 description: 'Enable Verify and Pay feature (optional)',
             },
+            {
+                displayName: 'Order Splits',
+                name: 'order_splits',
+                type: 'fixedCollection',
+                placeholder: 'Add Vendor Split',
+                typeOptions: {
+                    multipleValues: true,
+                },
+                displayOptions: {
+                    show: {
+                        operation: ['createOrder'],
+                    },
+                },
+                default: {},
+                description: 'Easy Split settlement of this order across vendors. Use either amounts or percentages for all rows; totals must not exceed the order amount or 100% (optional)',
+                options: [
+                    {
+                        displayName: 'Split',
+                        name: 'splits',
+                        values: [
+                            {
+                                displayName: 'Vendor ID',
+                                name: 'vendor_id',
+                                type: 'string',
+                                default: '',
+                                required: true,
+                                description: 'ID of the Easy Split vendor that receives this share',
+                            },
+                            {
+                                displayName: 'Split Type',
+                                name: 'split_type',
+                                type: 'options',
+                                options: [
+                                    { name: 'Amount', value: 'amount' },
+                                    { name: 'Percentage', value: 'percentage' },
+                                ],
+                                default: 'amount',
+                                description: 'Whether the value is a fixed amount in the order currency or a percentage of the order amount',
+                            },
+                            {
+                                displayName: 'Value',
+                                name: 'value',
+                                type: 'number',
+                                typeOptions: {
+                                    minValue: 0,
+                                    numberPrecision: 2,
+                                },
+                                default: 0,
+                                description: 'Amount or percentage settled to the vendor. Amounts follow the order currency and the Amounts in Minor Units setting.',
+                            },
+                        ],
+                    },
+                ],
+            },
             {
                 displayName: 'Idempotency Key',
                 name: 'idempotency_key',
@@ -489,6 +1565,160 @@ export class CashfreePayments implements INodeType {
                 placeholder: 'UUID format recommended (e.g., 3c90c3cc-0d44-4b50-8888-8dd25736052a)',
             },
 
+            // Get Order properties
+            {
+                displayName: 'Order ID',
+                name: 'get_order_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getOrder', 'getPaymentsForOrder', 'getPaymentById'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'The order ID passed while creating the order',
+            },
+            {
+                displayName: 'Payment ID',
+                name: 'cf_payment_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getPaymentById'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'The Cashfree payment ID (cf_payment_id) of the payment attempt',
+            },
+            {
+                displayName: 'Request ID',
+                name: 'get_order_request_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getOrder', 'getPaymentsForOrder', 'getPaymentById'],
+                    },
+                },
+                default: '',
+                description: 'Request ID for the API call. Can be used to resolve tech issues. Communicate this in your tech related queries to Cashfree (optional)',
+            },
+
+            // Order Pay properties - Mandatory fields first
+            {
+                displayName: 'Payment Session ID',
+                name: 'pay_payment_session_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['orderPay'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'The payment_session_id returned by Create Order',
+            },
+            {
+                displayName: 'Payment Method',
+                name: 'pay_payment_method',
+                type: 'options',
+                options: [
+                    { name: 'UPI Collect', value: 'upiCollect', description: 'Send a collect request to the customer UPI ID' },
+                    { name: 'UPI QR Code', value: 'upiQrCode', description: 'Get a UPI QR code the customer can scan' },
+                    { name: 'UPI Intent', value: 'upiIntent', description: 'Get UPI app deep links the customer can open' },
+                    { name: 'Netbanking', value: 'netbanking', description: 'Get the bank redirect URL for netbanking' },
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['orderPay'],
+                    },
+                },
+                default: 'upiCollect',
+                description: 'How the customer pays the order',
+            },
+            {
+                displayName: 'Card payments are not supported: card numbers, expiry dates and CVVs must not be stored in workflow parameters or execution data (PCI DSS). Send card customers to the Cashfree checkout with the payment session ID instead.',
+                name: 'pay_card_notice',
+                type: 'notice',
+                displayOptions: {
+                    show: {
+                        operation: ['orderPay'],
+                    },
+                },
+                default: '',
+            },
+            {
+                displayName: 'UPI ID',
+                name: 'pay_upi_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['orderPay'],
+                        pay_payment_method: ['upiCollect'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'UPI VPA of the customer, e.g. customer@upi',
+            },
+            {
+                displayName: 'Netbanking Bank Code',
+                name: 'pay_netbanking_bank_code',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['orderPay'],
+                        pay_payment_method: ['netbanking'],
+                    },
+                },
+                default: 3003,
+                required: true,
+                description: 'Cashfree bank code of the customer bank, e.g. 3003 for State Bank of India',
+            },
+            // Optional fields
+            {
+                displayName: 'UPI Expiry (Minutes)',
+                name: 'pay_upi_expiry_minutes',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['orderPay'],
+                        pay_payment_method: ['upiCollect'],
+                    },
+                },
+                default: 0,
+                description: 'Minutes before the collect request expires. Leave 0 for the Cashfree default (optional)',
+            },
+
+            // Terminate Order properties - Mandatory fields first
+            {
+                displayName: 'Order ID',
+                name: 'terminate_order_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['terminateOrder'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'The ID of the active order to terminate',
+            },
+            // Optional fields
+            {
+                displayName: 'Request ID',
+                name: 'terminate_request_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['terminateOrder'],
+                    },
+                },
+                default: '',
+                description: 'Request ID for the API call. Can be used to resolve tech issues. Communicate this in your tech related queries to Cashfree (optional)',
+            },
+
             // Payment Link properties
             {
                 displayName: 'Customer Email',
@@ -727,6 +1957,70 @@ export class CashfreePayments implements INodeType {
                 description: 'Custom key-value pairs for internal tracking. Example: {"order_id": "ORD123", "internal_ref": "CUST456"} (optional)',
                 placeholder: '{"key1": "value1", "key2": "value2"}',
             },
+            {
+                displayName: 'Send SMS',
+                name: 'link_notify_send_sms',
+                type: 'boolean',
+                displayOptions: {
+                    show: {
+                        operation: ['createPaymentLink'],
+                    },
+                },
+                default: false,
+                description: 'Whether Cashfree should send the payment link to the customer phone by SMS (optional)',
+            },
+            {
+                displayName: 'Send Email',
+                name: 'link_notify_send_email',
+                type: 'boolean',
+                displayOptions: {
+                    show: {
+                        operation: ['createPaymentLink'],
+                    },
+                },
+                default: false,
+                description: 'Whether Cashfree should send the payment link to the customer email. Requires Customer Email (optional)',
+            },
+            {
+                displayName: 'Auto Reminders',
+                name: 'link_auto_reminders',
+                type: 'boolean',
+                displayOptions: {
+                    show: {
+                        operation: ['createPaymentLink'],
+                    },
+                },
+                default: false,
+                description: 'Whether Cashfree should send payment reminders to the customer until the link is paid or expires (optional)',
+            },
+            {
+                displayName: 'Allow Partial Payments',
+                name: 'link_partial_payments',
+                type: 'boolean',
+                displayOptions: {
+                    show: {
+                        operation: ['createPaymentLink'],
+                    },
+                },
+                default: false,
+                description: 'Whether the customer can pay the link amount in instalments (optional)',
+            },
+            {
+                displayName: 'Minimum Partial Amount',
+                name: 'link_minimum_partial_amount',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createPaymentLink'],
+                        link_partial_payments: [true],
+                    },
+                },
+                typeOptions: {
+                    minValue: 0,
+                },
+                default: 0,
+                description: 'Smallest amount the customer can pay in one instalment. Must be greater than 0 and less than the link amount. Leave 0 to let Cashfree accept any amount (optional)',
+            },
             {
                 displayName: 'Idempotency Key',
                 name: 'payment_link_idempotency_key',
@@ -743,17 +2037,18 @@ export class CashfreePayments implements INodeType {
 
             // Cancel Payment Link properties
             {
-                displayName: 'Link ID',
+                displayName: 'Payment Link',
                 name: 'cancel_link_id',
-                type: 'string',
+                type: 'resourceLocator',
+                default: { mode: 'id', value: '' },
+                required: true,
+                modes: LINK_LOCATOR_MODES,
                 displayOptions: {
                     show: {
                         operation: ['cancelPaymentLink'],
                     },
                 },
-                default: '',
-                required: true,
-                description: 'The ID of the payment link to cancel',
+                description: 'The payment link to cancel',
             },
             {
                 displayName: 'Request ID',
@@ -783,17 +2078,18 @@ export class CashfreePayments implements INodeType {
 
             // Fetch Payment Link Details properties
             {
-                displayName: 'Link ID',
+                displayName: 'Payment Link',
                 name: 'fetch_details_link_id',
-                type: 'string',
+                type: 'resourceLocator',
+                default: { mode: 'id', value: '' },
+                required: true,
+                modes: LINK_LOCATOR_MODES,
                 displayOptions: {
                     show: {
                         operation: ['fetchPaymentLinkDetails'],
                     },
                 },
-                default: '',
-                required: true,
-                description: 'The ID of the payment link to fetch details for',
+                description: 'The payment link to fetch details for',
             },
             {
                 displayName: 'Request ID',
@@ -821,19 +2117,100 @@ export class CashfreePayments implements INodeType {
                 placeholder: 'UUID format recommended',
             },
 
-            // Get Orders properties - Mandatory fields first
+            // QR code properties (shared by payment link operations)
             {
-                displayName: 'Link ID',
-                name: 'get_orders_link_id',
+                displayName: 'Generate QR Code',
+                name: 'qr_generate',
+                type: 'boolean',
+                displayOptions: {
+                    show: {
+                        operation: ['createPaymentLink', 'fetchPaymentLinkDetails'],
+                    },
+                },
+                default: false,
+                description: 'Whether to render a QR code of the payment link URL and attach it to the output as binary data. It is generated locally, without an external service.',
+            },
+            {
+                displayName: 'QR Format',
+                name: 'qr_format',
+                type: 'options',
+                options: [
+                    { name: 'PNG', value: 'png' },
+                    { name: 'SVG', value: 'svg' },
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['createPaymentLink', 'fetchPaymentLinkDetails'],
+                        qr_generate: [true],
+                    },
+                },
+                default: 'png',
+            },
+            {
+                displayName: 'QR Size (Pixels)',
+                name: 'qr_size',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createPaymentLink', 'fetchPaymentLinkDetails'],
+                        qr_generate: [true],
+                    },
+                },
+                typeOptions: {
+                    minValue: 50,
+                    maxValue: 2000,
+                },
+                default: 300,
+                description: 'Width and height of the image. PNG images are rounded down to whole pixels per module.',
+            },
+            {
+                displayName: 'Error Correction Level',
+                name: 'qr_error_correction',
+                type: 'options',
+                options: [
+                    { name: 'Low (7%)', value: 'L' },
+                    { name: 'Medium (15%)', value: 'M' },
+                    { name: 'Quartile (25%)', value: 'Q' },
+                    { name: 'High (30%)', value: 'H' },
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['createPaymentLink', 'fetchPaymentLinkDetails'],
+                        qr_generate: [true],
+                    },
+                },
+                default: 'M',
+                description: 'Share of the code that can be damaged and still be scanned. Higher levels produce denser codes, which helps for printed invoices.',
+            },
+            {
+                displayName: 'Put Output File in Field',
+                name: 'qr_binary_property',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['getOrdersForPaymentLink'],
+                        operation: ['createPaymentLink', 'fetchPaymentLinkDetails'],
+                        qr_generate: [true],
                     },
                 },
-                default: '',
+                default: 'qrCode',
+                required: true,
+                description: 'The name of the output binary field to put the QR code in',
+            },
+
+            // Get Orders properties - Mandatory fields first
+            {
+                displayName: 'Payment Link',
+                name: 'get_orders_link_id',
+                type: 'resourceLocator',
+                default: { mode: 'id', value: '' },
                 required: true,
-                description: 'The ID of the payment link to get orders for',
+                modes: LINK_LOCATOR_MODES,
+                displayOptions: {
+                    show: {
+                        operation: ['getOrdersForPaymentLink'],
+                    },
+                },
+                description: 'The payment link to get orders for',
             },
 
             // Optional fields
@@ -856,312 +2233,1919 @@ export class CashfreePayments implements INodeType {
                         operation: ['getOrdersForPaymentLink'],
                     },
                 },
-                default: 'PAID',
-                description: 'What status of orders you want to fetch. ALL - seen as all orders, PAID - seen as only paid orders (optional)',
+                default: 'PAID',
+                description: 'What status of orders you want to fetch. ALL - seen as all orders, PAID - seen as only paid orders (optional)',
+            },
+            {
+                displayName: 'Request ID',
+                name: 'get_orders_request_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getOrdersForPaymentLink'],
+                    },
+                },
+                default: '',
+                description: 'Request ID for the API call. Can be used to resolve tech issues. Communicate this in your tech related queries to Cashfree (optional)',
+            },
+            {
+                displayName: 'Idempotency Key',
+                name: 'get_orders_idempotency_key',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getOrdersForPaymentLink'],
+                    },
+                },
+                default: '',
+                description: 'An idempotency key is a unique identifier you include with your API call. If the request fails or times out, you can safely retry it using the same key to avoid duplicate actions (optional)',
+                placeholder: 'UUID format recommended',
+            },
+
+            // Refund properties - Mandatory fields first
+            {
+                displayName: 'Order',
+                name: 'refund_order_id',
+                type: 'resourceLocator',
+                default: { mode: 'list', value: '' },
+                required: true,
+                modes: [
+                    {
+                        displayName: 'From List (Settled Orders)',
+                        name: 'list',
+                        type: 'list',
+                        typeOptions: {
+                            searchListMethod: 'searchSettledOrders',
+                            searchable: true,
+                        },
+                    },
+                    ...ORDER_LOCATOR_MODES,
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['createRefund'],
+                    },
+                },
+                description: 'The order to refund. The list only shows orders settled in the last 30 days; enter the ID or URL of any other paid order.',
+            },
+            {
+                displayName: 'Refund Amount',
+                name: 'refund_amount',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createRefund'],
+                    },
+                },
+                default: 1,
+                required: true,
+            },
+            {
+                displayName: 'Refund Currency',
+                name: 'refund_currency',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createRefund'],
+                    },
+                },
+                default: 'INR',
+                description: 'Currency of the order being refunded, used to round and validate the refund amount (defaults to INR) (optional)',
+            },
+            {
+                displayName: 'Refund ID',
+                name: 'refund_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createRefund'],
+                    },
+                },
+                default: '',
+                required: true,
+            },
+
+            // Optional fields
+            {
+                displayName: 'Refund Speed',
+                name: 'refund_speed',
+                type: 'options',
+                options: [
+                    {
+                        name: 'Standard',
+                        value: 'STANDARD',
+                    },
+                    {
+                        name: 'Instant',
+                        value: 'INSTANT',
+                    },
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['createRefund'],
+                    },
+                },
+                default: 'STANDARD',
+                description: 'Refund processing speed (optional)',
+            },
+            {
+                displayName: 'Refund Note',
+                name: 'refund_note',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createRefund'],
+                    },
+                },
+                default: '',
+                description: 'Refund note for reference (optional)',
+            },
+            {
+                displayName: 'Request ID',
+                name: 'x_request_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createRefund'],
+                    },
+                },
+                default: '',
+                description: 'Request ID for the API call. Can be used to resolve tech issues. Communicate this in your tech related queries to Cashfree (optional)',
+            },
+            {
+                displayName: 'Idempotency Key',
+                name: 'x_idempotency_key',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createRefund'],
+                    },
+                },
+                default: '',
+                description: 'An idempotency key is a unique identifier you include with your API call. If the request fails or times out, you can safely retry it using the same key to avoid duplicate actions (optional)',
+                placeholder: 'UUID format recommended',
+            },
+
+            // Get Refund properties - Mandatory fields first
+            {
+                displayName: 'Order ID',
+                name: 'get_refund_order_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getRefund'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'The ID of the order the refund belongs to',
+            },
+            {
+                displayName: 'Refund ID',
+                name: 'get_refund_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getRefund'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'The merchant refund_id that was passed when the refund was created',
+            },
+            // Optional fields
+            {
+                displayName: 'Simplify',
+                name: 'get_refund_simplify',
+                type: 'boolean',
+                displayOptions: {
+                    show: {
+                        operation: ['getRefund'],
+                    },
+                },
+                default: true,
+                description: 'Whether to return only the refund status fields (status, status description, ARN, amounts and timestamps) instead of the full API response',
+            },
+            {
+                displayName: 'Request ID',
+                name: 'get_refund_request_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getRefund'],
+                    },
+                },
+                default: '',
+                description: 'Request ID for the API call. Can be used to resolve tech issues. Communicate this in your tech related queries to Cashfree (optional)',
+            },
+
+            // Get Refunds properties
+            {
+                displayName: 'Order ID',
+                name: 'get_refunds_order_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getAllRefundsForOrder'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'The ID of the order to get refunds for',
+            },
+            {
+                displayName: 'Request ID',
+                name: 'get_refunds_request_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getAllRefundsForOrder'],
+                    },
+                },
+                default: '',
+                description: 'Request ID for the API call. Can be used to resolve tech issues. Communicate this in your tech related queries to Cashfree (optional)',
+            },
+            {
+                displayName: 'Idempotency Key',
+                name: 'get_refunds_idempotency_key',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getAllRefundsForOrder'],
+                    },
+                },
+                default: '',
+                description: 'An idempotency key is a unique identifier you include with your API call. If the request fails or times out, you can safely retry it using the same key to avoid duplicate actions (optional)',
+                placeholder: 'UUID format recommended',
+            },
+
+            // Settlement properties
+            {
+                displayName: 'Start Date',
+                name: 'settlement_start_date',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getSettlements', 'getSettlementReconciliation'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Start of the settlement date range in ISO 8601 format',
+                placeholder: '2025-01-01T00:00:00Z',
+            },
+            {
+                displayName: 'End Date',
+                name: 'settlement_end_date',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getSettlements', 'getSettlementReconciliation'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'End of the settlement date range in ISO 8601 format',
+                placeholder: '2025-01-31T23:59:59Z',
+            },
+            {
+                displayName: 'Settlement IDs',
+                name: 'cf_settlement_ids',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getSettlements', 'getSettlementReconciliation'],
+                    },
+                },
+                default: '',
+                description: 'Comma-separated Cashfree settlement IDs to restrict the results to (optional)',
+                placeholder: '12345,12346',
+            },
+            {
+                displayName: 'Order ID',
+                name: 'settlement_order_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getSettlementForOrder'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'The ID of the order to get the settlement for',
+            },
+
+            // Vendor properties - Mandatory fields first
+            {
+                displayName: 'Vendor ID',
+                name: 'vendor_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor', 'updateVendor', 'getVendor'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Unique merchant-side ID of the vendor. Alphanumeric, underscore and hyphen only.',
+            },
+            {
+                displayName: 'Name',
+                name: 'vendor_name',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Name of the vendor',
+            },
+            {
+                displayName: 'Email',
+                name: 'vendor_email',
+                type: 'string',
+                placeholder: 'name@email.com',
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Email address of the vendor',
+            },
+            {
+                displayName: 'Phone',
+                name: 'vendor_phone',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Phone number of the vendor',
+            },
+            {
+                displayName: 'Settlement Method',
+                name: 'vendor_payment_method',
+                type: 'options',
+                options: [
+                    { name: 'Bank Account', value: 'bank' },
+                    { name: 'UPI', value: 'upi' },
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor'],
+                    },
+                },
+                default: 'bank',
+                description: 'Where the vendor share is settled',
+            },
+            {
+                displayName: 'Account Holder',
+                name: 'vendor_account_holder',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Name of the bank account or UPI ID holder',
+            },
+            {
+                displayName: 'Bank Account Number',
+                name: 'vendor_bank_account_number',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor'],
+                        vendor_payment_method: ['bank'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Bank account number of the vendor',
+            },
+            {
+                displayName: 'IFSC',
+                name: 'vendor_bank_ifsc',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor'],
+                        vendor_payment_method: ['bank'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'IFSC code of the vendor bank branch',
+            },
+            {
+                displayName: 'UPI ID',
+                name: 'vendor_upi_vpa',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor'],
+                        vendor_payment_method: ['upi'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'UPI VPA of the vendor',
+                placeholder: 'vendor@upi',
+            },
+            {
+                displayName: 'Settlement Schedule',
+                name: 'vendor_schedule_option',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor'],
+                    },
+                },
+                default: 1,
+                required: true,
+                description: 'ID of the settlement schedule configured for Easy Split in the Cashfree Dashboard',
+            },
+            // Optional fields
+            {
+                displayName: 'Verify Account',
+                name: 'vendor_verify_account',
+                type: 'boolean',
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor'],
+                    },
+                },
+                default: false,
+                description: 'Whether Cashfree should verify the bank account or UPI ID before activating the vendor (optional)',
+            },
+            {
+                displayName: 'Dashboard Access',
+                name: 'vendor_dashboard_access',
+                type: 'boolean',
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor'],
+                    },
+                },
+                default: false,
+                description: 'Whether the vendor gets access to the Cashfree vendor dashboard (optional)',
+            },
+            {
+                displayName: 'KYC Details',
+                name: 'vendor_kyc_details',
+                type: 'json',
+                displayOptions: {
+                    show: {
+                        operation: ['createVendor'],
+                    },
+                },
+                default: '{}',
+                description: 'KYC details of the vendor, e.g. business type, PAN and GST (optional)',
+                placeholder: '{"business_type": "Education", "pan": "ABCPV1234D", "gst": "11AAAAA1111A1Z0"}',
+            },
+            {
+                displayName: 'Update Fields',
+                name: 'vendor_update_fields',
+                type: 'collection',
+                placeholder: 'Add Field',
+                displayOptions: {
+                    show: {
+                        operation: ['updateVendor'],
+                    },
+                },
+                default: {},
+                options: [
+                    {
+                        displayName: 'Account Holder',
+                        name: 'account_holder',
+                        type: 'string',
+                        default: '',
+                        description: 'Name of the bank account or UPI ID holder. Required when changing bank or UPI details.',
+                    },
+                    {
+                        displayName: 'Bank Account Number',
+                        name: 'account_number',
+                        type: 'string',
+                        default: '',
+                    },
+                    {
+                        displayName: 'Email',
+                        name: 'email',
+                        type: 'string',
+                        placeholder: 'name@email.com',
+                        default: '',
+                    },
+                    {
+                        displayName: 'IFSC',
+                        name: 'ifsc',
+                        type: 'string',
+                        default: '',
+                    },
+                    {
+                        displayName: 'KYC Details',
+                        name: 'kyc_details',
+                        type: 'json',
+                        default: '{}',
+                    },
+                    {
+                        displayName: 'Name',
+                        name: 'name',
+                        type: 'string',
+                        default: '',
+                    },
+                    {
+                        displayName: 'Phone',
+                        name: 'phone',
+                        type: 'string',
+                        default: '',
+                    },
+                    {
+                        displayName: 'Settlement Schedule',
+                        name: 'schedule_option',
+                        type: 'number',
+                        default: 1,
+                    },
+                    {
+                        displayName: 'Status',
+                        name: 'status',
+                        type: 'options',
+                        options: [
+                            { name: 'Active', value: 'ACTIVE' },
+                            { name: 'Blocked', value: 'BLOCKED' },
+                        ],
+                        default: 'ACTIVE',
+                        description: 'Blocked vendors cannot receive new splits',
+                    },
+                    {
+                        displayName: 'UPI ID',
+                        name: 'vpa',
+                        type: 'string',
+                        default: '',
+                    },
+                ],
+            },
+            {
+                displayName: 'Start Date',
+                name: 'vendor_settlement_start_date',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getVendorSettlements'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Start of the date range in ISO 8601 format',
+                placeholder: '2025-01-01T00:00:00Z',
+            },
+            {
+                displayName: 'End Date',
+                name: 'vendor_settlement_end_date',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getVendorSettlements'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'End of the date range in ISO 8601 format',
+                placeholder: '2025-01-31T23:59:59Z',
+            },
+            {
+                displayName: 'Order IDs',
+                name: 'vendor_settlement_order_ids',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getVendorSettlements'],
+                    },
+                },
+                default: '',
+                description: 'Comma-separated order IDs to restrict the results to (optional)',
+                placeholder: 'order_001,order_002',
+            },
+
+            // Dispute properties - Mandatory fields first
+            {
+                displayName: 'Order ID',
+                name: 'dispute_order_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getDisputesForOrder'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'The ID of the order to get disputes for',
+            },
+            {
+                displayName: 'Dispute ID',
+                name: 'dispute_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getDispute', 'acceptDispute', 'submitDisputeEvidence'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'The Cashfree dispute ID (cf_dispute_id)',
+            },
+            {
+                displayName: 'Binary Properties',
+                name: 'dispute_binary_properties',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['submitDisputeEvidence'],
+                    },
+                },
+                default: 'data',
+                required: true,
+                description: 'Comma-separated names of the input binary properties that hold the evidence documents. Each document is uploaded separately.',
+                placeholder: 'invoice,delivery_proof',
+            },
+            {
+                displayName: 'Document Type',
+                name: 'dispute_document_type',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['submitDisputeEvidence'],
+                    },
+                },
+                default: 'DeliveryProof',
+                required: true,
+                description: 'Type of the evidence, as listed in the preferred_evidence of the dispute (e.g. DeliveryProof, ShippingProof, Invoice)',
+            },
+            // Optional fields
+            {
+                displayName: 'Note',
+                name: 'dispute_note',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['submitDisputeEvidence'],
+                    },
+                },
+                default: '',
+                description: 'Note explaining the evidence to the reviewer (optional)',
+            },
+
+            // Subscription Plan properties - Mandatory fields first
+            {
+                displayName: 'Plan ID',
+                name: 'plan_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscriptionPlan'],
+                    },
+                },
+                default: '',
+                required: true,
+                placeholder: 'PLAN_MONTHLY_499',
+                description: 'Unique identifier for the plan (alphanumeric, "_" and "-" only, max 40 characters)',
+            },
+            {
+                displayName: 'Plan Name',
+                name: 'plan_name',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscriptionPlan'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Name of the plan shown to customers',
+            },
+            {
+                displayName: 'Plan Type',
+                name: 'plan_type',
+                type: 'options',
+                options: [
+                    {
+                        name: 'Periodic',
+                        value: 'PERIODIC',
+                        description: 'Customer is charged a fixed amount at a fixed interval',
+                    },
+                    {
+                        name: 'On Demand',
+                        value: 'ON_DEMAND',
+                        description: 'You raise charges as needed, up to the plan maximum amount',
+                    },
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscriptionPlan'],
+                    },
+                },
+                default: 'PERIODIC',
+                required: true,
+            },
+            {
+                displayName: 'Max Amount',
+                name: 'plan_max_amount',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscriptionPlan'],
+                    },
+                },
+                default: 0,
+                required: true,
+                description: 'Maximum amount that can be charged in a single debit',
+            },
+            {
+                displayName: 'Recurring Amount',
+                name: 'plan_recurring_amount',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscriptionPlan'],
+                        plan_type: ['PERIODIC'],
+                    },
+                },
+                default: 0,
+                required: true,
+                description: 'Amount charged every interval',
+            },
+            {
+                displayName: 'Interval Type',
+                name: 'plan_interval_type',
+                type: 'options',
+                options: [
+                    { name: 'Day', value: 'DAY' },
+                    { name: 'Week', value: 'WEEK' },
+                    { name: 'Month', value: 'MONTH' },
+                    { name: 'Year', value: 'YEAR' },
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscriptionPlan'],
+                        plan_type: ['PERIODIC'],
+                    },
+                },
+                default: 'MONTH',
+                required: true,
+            },
+            {
+                displayName: 'Intervals',
+                name: 'plan_intervals',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscriptionPlan'],
+                        plan_type: ['PERIODIC'],
+                    },
+                },
+                typeOptions: {
+                    minValue: 1,
+                },
+                default: 1,
+                required: true,
+                description: 'Number of interval types between two debits. Example: 3 with Month means a quarterly charge.',
+            },
+
+            // Optional fields
+            {
+                displayName: 'Plan Currency',
+                name: 'plan_currency',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscriptionPlan'],
+                    },
+                },
+                default: 'INR',
+                description: 'Currency of the plan (defaults to INR) (optional)',
+            },
+            {
+                displayName: 'Max Cycles',
+                name: 'plan_max_cycles',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscriptionPlan'],
+                    },
+                },
+                default: 0,
+                description: 'Maximum number of debits for subscriptions on this plan. 0 means no limit (optional)',
+            },
+            {
+                displayName: 'Plan Note',
+                name: 'plan_note',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscriptionPlan'],
+                    },
+                },
+                default: '',
+                description: 'Note for the plan (optional)',
+            },
+
+            // Create Subscription properties - Mandatory fields first
+            {
+                displayName: 'Subscription ID',
+                name: 'subscription_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: '',
+                required: true,
+                placeholder: 'SUB_001',
+                description: 'Unique identifier for the subscription in your system',
+            },
+            {
+                displayName: 'Plan ID',
+                name: 'subscription_plan_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'ID of the plan to subscribe the customer to',
+            },
+            {
+                displayName: 'Customer Name',
+                name: 'subscription_customer_name',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: '',
+                required: true,
+            },
+            {
+                displayName: 'Customer Email',
+                name: 'subscription_customer_email',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: '',
+                required: true,
+            },
+            {
+                displayName: 'Customer Phone',
+                name: 'subscription_customer_phone',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: '',
+                required: true,
+            },
+
+            // Optional fields
+            {
+                displayName: 'Authorization Amount',
+                name: 'subscription_authorization_amount',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: 1,
+                description: 'Amount charged to authorize the mandate (optional)',
+            },
+            {
+                displayName: 'Refund Authorization Amount',
+                name: 'subscription_authorization_amount_refund',
+                type: 'boolean',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: true,
+                description: 'Whether to refund the authorization amount once the mandate is approved (optional)',
+            },
+            {
+                displayName: 'Mandate Payment Methods',
+                name: 'subscription_payment_methods',
+                type: 'multiOptions',
+                options: [
+                    { name: 'eNACH', value: 'enach' },
+                    { name: 'Physical NACH', value: 'pnach' },
+                    { name: 'UPI Autopay', value: 'upi' },
+                    { name: 'Card', value: 'card' },
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: [],
+                description: 'Mandate authorization methods offered to the customer. Leave empty to allow all enabled methods (optional).',
+            },
+            {
+                displayName: 'Return URL',
+                name: 'subscription_return_url',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: '',
+                description: 'URL to redirect the customer after mandate authorization (optional)',
+            },
+            {
+                displayName: 'First Charge Time',
+                name: 'subscription_first_charge_time',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: '',
+                description: 'ISO 8601 format. Time of the first debit for periodic plans (optional)',
+                placeholder: 'YYYY-MM-DDTHH:MM:SS+05:30',
+            },
+            {
+                displayName: 'Expiry Time',
+                name: 'subscription_expiry_time',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: '',
+                description: 'ISO 8601 format. Time after which the subscription expires (optional)',
+                placeholder: 'YYYY-MM-DDTHH:MM:SS+05:30',
+            },
+            {
+                displayName: 'Subscription Note',
+                name: 'subscription_note',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: '',
+                description: 'Note for the subscription (optional)',
+            },
+            {
+                displayName: 'Subscription Tags',
+                name: 'subscription_tags',
+                type: 'json',
+                displayOptions: {
+                    show: {
+                        operation: ['createSubscription'],
+                    },
+                },
+                default: '{}',
+                description: 'Custom key-value pairs for internal tracking (optional)',
+                placeholder: '{"customer_tier": "gold"}',
+            },
+
+            // Get / Pause / Resume / Cancel Subscription properties
+            {
+                displayName: 'Subscription ID',
+                name: 'manage_subscription_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getSubscription', 'pauseSubscription', 'resumeSubscription', 'cancelSubscription', 'chargeSubscription'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'The ID of the subscription',
+            },
+
+            // Charge Subscription properties
+            {
+                displayName: 'Payment ID',
+                name: 'subscription_payment_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['chargeSubscription'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Unique identifier for this charge in your system',
+            },
+            {
+                displayName: 'Payment Amount',
+                name: 'subscription_payment_amount',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['chargeSubscription'],
+                    },
+                },
+                default: 0,
+                required: true,
+                description: 'Amount to charge. Must not exceed the plan maximum amount.',
+            },
+            {
+                displayName: 'Schedule Date',
+                name: 'subscription_payment_schedule_date',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['chargeSubscription'],
+                    },
+                },
+                default: '',
+                description: 'ISO 8601 format. When to debit the customer. Leave empty to charge as soon as the mandate allows (optional)',
+                placeholder: 'YYYY-MM-DDTHH:MM:SS+05:30',
+            },
+            {
+                displayName: 'Remarks',
+                name: 'subscription_payment_remarks',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['chargeSubscription'],
+                    },
+                },
+                default: '',
+                description: 'Remarks for the charge (optional)',
+            },
+
+            // Cashgram properties - Mandatory fields first
+            {
+                displayName: 'Cashgram ID',
+                name: 'cashgram_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createCashgram'],
+                    },
+                },
+                default: '',
+                required: true,
+                placeholder: 'CG_001',
+                description: 'Unique identifier for the Cashgram (alphanumeric, "_" and "-" only, 3-50 characters)',
+            },
+            {
+                displayName: 'Amount',
+                name: 'cashgram_amount',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createCashgram'],
+                    },
+                },
+                default: 1,
+                required: true,
+                description: 'Amount in INR',
+            },
+            {
+                displayName: 'Name',
+                name: 'cashgram_name',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createCashgram'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Recipient name',
+            },
+            {
+                displayName: 'Email',
+                name: 'cashgram_email',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createCashgram'],
+                    },
+                },
+                default: '',
+                required: true,
+                placeholder: 'customer@example.com',
+                description: 'Valid email address of the recipient',
+            },
+            {
+                displayName: 'Phone',
+                name: 'cashgram_phone',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createCashgram'],
+                    },
+                },
+                default: '',
+                required: true,
+                placeholder: '9999999999',
+                description: 'Phone number of the recipient (10 digits, without country code)',
+            },
+
+            // Optional fields
+            {
+                displayName: 'Link Expiry',
+                name: 'cashgram_link_expiry',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createCashgram'],
+                    },
+                },
+                default: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+                required: false,
+                description: 'Expiry date for the Cashgram link (YYYY-MM-DD format). Maximum 30 days from date of creation (optional)',
+            },
+            {
+                displayName: 'Remarks',
+                name: 'cashgram_remarks',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createCashgram'],
+                    },
+                },
+                default: 'Cashgram payout',
+                required: false,
+                description: 'Additional remarks for the Cashgram (optional)',
+            },
+            {
+                displayName: 'Notify Customer',
+                name: 'cashgram_notify_customer',
+                type: 'options',
+                options: [
+                    {
+                        name: 'Yes',
+                        value: 1,
+                    },
+                    {
+                        name: 'No',
+                        value: 0,
+                    },
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['createCashgram'],
+                    },
+                },
+                default: 1,
+                required: false,
+                description: 'Whether to notify the customer about the Cashgram (1 = Yes, 0 = No) (optional)',
+            },
+
+            // Deactivate Cashgram properties
+            {
+                displayName: 'Cashgram',
+                name: 'deactivate_cashgram_id',
+                type: 'resourceLocator',
+                default: { mode: 'id', value: '' },
+                required: true,
+                modes: [
+                    {
+                        displayName: 'By URL',
+                        name: 'url',
+                        type: 'string',
+                        placeholder: 'https://merchant.cashfree.com/payouts/cashgram/cashgram_001',
+                        extractValue: {
+                            type: 'regex',
+                            regex: 'https?://\\S+?/cashgrams?/([A-Za-z0-9_-]+)',
+                        },
+                        validation: [
+                            {
+                                type: 'regex',
+                                properties: {
+                                    regex: 'https?://\\S+?/cashgrams?/[A-Za-z0-9_-]+.*',
+                                    errorMessage: 'Not a Cashfree Cashgram URL',
+                                },
+                            },
+                        ],
+                    },
+                    {
+                        displayName: 'By ID',
+                        name: 'id',
+                        type: 'string',
+                        placeholder: 'cashgram_001',
+                    },
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['deactivateCashgram'],
+                    },
+                },
+                description: 'The Cashgram to deactivate',
+            },
+
+            // Standard Transfer properties - Mandatory fields first
+            {
+                displayName: 'Transfer ID',
+                name: 'transfer_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createTransfer'],
+                    },
+                },
+                default: '',
+                required: true,
+                placeholder: 'TXN_001',
+                description: 'Unique identifier for the transfer in your system (alphanumeric, "_" and "-" only, max 40 characters)',
+            },
+            {
+                displayName: 'Amount',
+                name: 'transfer_amount',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createTransfer'],
+                    },
+                },
+                default: 1,
+                required: true,
+                description: 'Amount to transfer in INR (minimum 1.00)',
+            },
+            {
+                displayName: 'Beneficiary',
+                name: 'transfer_beneficiary_type',
+                type: 'options',
+                options: [
+                    {
+                        name: 'Existing Beneficiary ID',
+                        value: 'beneficiaryId',
+                    },
+                    {
+                        name: 'Bank Account',
+                        value: 'bankAccount',
+                    },
+                    {
+                        name: 'UPI ID',
+                        value: 'vpa',
+                    },
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['createTransfer'],
+                    },
+                },
+                default: 'beneficiaryId',
+                description: 'Whether to pay a beneficiary already added in Cashfree or pass the bank/UPI details directly',
+            },
+            {
+                displayName: 'Beneficiary ID',
+                name: 'transfer_beneficiary_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createTransfer'],
+                        transfer_beneficiary_type: ['beneficiaryId'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'ID of a beneficiary already added in Cashfree Payouts',
+            },
+            {
+                displayName: 'Beneficiary Name',
+                name: 'transfer_beneficiary_name',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createTransfer'],
+                        transfer_beneficiary_type: ['bankAccount', 'vpa'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Name of the account holder',
+            },
+            {
+                displayName: 'Bank Account Number',
+                name: 'transfer_bank_account_number',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createTransfer'],
+                        transfer_beneficiary_type: ['bankAccount'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Beneficiary bank account number',
+            },
+            {
+                displayName: 'Bank IFSC',
+                name: 'transfer_bank_ifsc',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createTransfer'],
+                        transfer_beneficiary_type: ['bankAccount'],
+                    },
+                },
+                default: '',
+                required: true,
+                placeholder: 'HDFC0000001',
+                description: 'IFSC code of the beneficiary bank branch',
+            },
+            {
+                displayName: 'UPI ID',
+                name: 'transfer_vpa',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createTransfer'],
+                        transfer_beneficiary_type: ['vpa'],
+                    },
+                },
+                default: '',
+                required: true,
+                placeholder: 'name@bank',
+                description: 'Beneficiary UPI VPA',
+            },
+
+            // Optional fields
+            {
+                displayName: 'Transfer Mode',
+                name: 'transfer_mode',
+                type: 'options',
+                options: [
+                    { name: 'Bank Transfer (Auto)', value: 'banktransfer' },
+                    { name: 'IMPS', value: 'imps' },
+                    { name: 'NEFT', value: 'neft' },
+                    { name: 'RTGS', value: 'rtgs' },
+                    { name: 'UPI', value: 'upi' },
+                ],
+                displayOptions: {
+                    show: {
+                        operation: ['createTransfer'],
+                    },
+                },
+                default: 'banktransfer',
+                description: 'Mode of transfer. Bank Transfer lets Cashfree pick IMPS/NEFT/RTGS (optional)',
+            },
+            {
+                displayName: 'Remarks',
+                name: 'transfer_remarks',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createTransfer'],
+                    },
+                },
+                default: '',
+                description: 'Additional remarks for the transfer, alphanumeric and whitespace only (max 70 characters) (optional)',
+            },
+
+            // Batch Transfer properties
+            {
+                displayName: 'Batch Transfer ID',
+                name: 'batch_transfer_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['createBatchTransfer'],
+                    },
+                },
+                default: '',
+                required: true,
+                description: 'Unique identifier for the batch in your system',
+            },
+            {
+                displayName: 'Transfers',
+                name: 'batch_transfers',
+                type: 'json',
+                displayOptions: {
+                    show: {
+                        operation: ['createBatchTransfer'],
+                    },
+                },
+                default: '[]',
+                required: true,
+                description: 'Array of transfers in the Payouts v2 transfer format (max 1000 per batch)',
+                placeholder: '[{"transfer_id": "TXN_001", "transfer_amount": 100, "transfer_mode": "banktransfer", "beneficiary_details": {"beneficiary_id": "BENE_001"}}]',
+            },
+
+            // Get Transfer Status properties
+            {
+                displayName: 'Transfer ID',
+                name: 'status_transfer_id',
+                type: 'string',
+                displayOptions: {
+                    show: {
+                        operation: ['getTransferStatus'],
+                    },
+                },
+                default: '',
+                description: 'The transfer ID you passed while creating the transfer. Either this or the Cashfree Transfer ID is required.',
             },
             {
-                displayName: 'Request ID',
-                name: 'get_orders_request_id',
+                displayName: 'Cashfree Transfer ID',
+                name: 'status_cf_transfer_id',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['getOrdersForPaymentLink'],
+                        operation: ['getTransferStatus'],
                     },
                 },
                 default: '',
-                description: 'Request ID for the API call. Can be used to resolve tech issues. Communicate this in your tech related queries to Cashfree (optional)',
+                description: 'The cf_transfer_id returned by Cashfree. Either this or the Transfer ID is required.',
             },
+
+            // Add Beneficiary properties - Mandatory fields first
             {
-                displayName: 'Idempotency Key',
-                name: 'get_orders_idempotency_key',
+                displayName: 'Beneficiary ID',
+                name: 'bene_id',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['getOrdersForPaymentLink'],
+                        operation: ['addBeneficiary'],
                     },
                 },
                 default: '',
-                description: 'An idempotency key is a unique identifier you include with your API call. If the request fails or times out, you can safely retry it using the same key to avoid duplicate actions (optional)',
-                placeholder: 'UUID format recommended',
+                required: true,
+                placeholder: 'VENDOR_001',
+                description: 'Unique identifier for the beneficiary in your system (alphanumeric, max 50 characters)',
             },
-
-            // Refund properties - Mandatory fields first
             {
-                displayName: 'Order ID',
-                name: 'refund_order_id',
+                displayName: 'Name',
+                name: 'bene_name',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['createRefund'],
+                        operation: ['addBeneficiary'],
                     },
                 },
                 default: '',
                 required: true,
+                description: 'Beneficiary name (alphabets and whitespace only, max 100 characters)',
             },
             {
-                displayName: 'Refund Amount',
-                name: 'refund_amount',
-                type: 'number',
+                displayName: 'Email',
+                name: 'bene_email',
+                type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['createRefund'],
+                        operation: ['addBeneficiary'],
                     },
                 },
-                default: 1,
+                default: '',
                 required: true,
+                placeholder: 'vendor@example.com',
+                description: 'Beneficiary email address',
             },
             {
-                displayName: 'Refund ID',
-                name: 'refund_id',
+                displayName: 'Phone',
+                name: 'bene_phone',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['createRefund'],
+                        operation: ['addBeneficiary'],
                     },
                 },
                 default: '',
                 required: true,
+                placeholder: '9999999999',
+                description: 'Beneficiary phone number (10 digits, without country code)',
             },
-
-            // Optional fields
             {
-                displayName: 'Refund Speed',
-                name: 'refund_speed',
-                type: 'options',
-                options: [
-                    {
-                        name: 'Standard',
-                        value: 'STANDARD',
-                    },
-                    {
-                        name: 'Instant',
-                        value: 'INSTANT',
-                    },
-                ],
+                displayName: 'Address',
+                name: 'bene_address1',
+                type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['createRefund'],
+                        operation: ['addBeneficiary'],
                     },
                 },
-                default: 'STANDARD',
-                description: 'Refund processing speed (optional)',
+                default: '',
+                required: true,
+                description: 'Beneficiary address (max 150 characters)',
             },
+
+            // Optional fields
             {
-                displayName: 'Refund Note',
-                name: 'refund_note',
+                displayName: 'Bank Account Number',
+                name: 'bene_bank_account',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['createRefund'],
+                        operation: ['addBeneficiary'],
                     },
                 },
                 default: '',
-                description: 'Refund note for reference (optional)',
+                description: 'Beneficiary bank account number. Required along with IFSC unless a UPI ID is given (optional)',
             },
             {
-                displayName: 'Request ID',
-                name: 'x_request_id',
+                displayName: 'Bank IFSC',
+                name: 'bene_ifsc',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['createRefund'],
+                        operation: ['addBeneficiary'],
                     },
                 },
                 default: '',
-                description: 'Request ID for the API call. Can be used to resolve tech issues. Communicate this in your tech related queries to Cashfree (optional)',
+                placeholder: 'HDFC0000001',
+                description: 'IFSC code of the beneficiary bank branch (optional)',
             },
             {
-                displayName: 'Idempotency Key',
-                name: 'x_idempotency_key',
+                displayName: 'UPI ID',
+                name: 'bene_vpa',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['createRefund'],
+                        operation: ['addBeneficiary'],
                     },
                 },
                 default: '',
-                description: 'An idempotency key is a unique identifier you include with your API call. If the request fails or times out, you can safely retry it using the same key to avoid duplicate actions (optional)',
-                placeholder: 'UUID format recommended',
+                placeholder: 'name@bank',
+                description: 'Beneficiary UPI VPA. Required unless bank account and IFSC are given (optional)',
             },
-
-            // Get Refunds properties
             {
-                displayName: 'Order ID',
-                name: 'get_refunds_order_id',
+                displayName: 'City',
+                name: 'bene_city',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['getAllRefundsForOrder'],
+                        operation: ['addBeneficiary'],
                     },
                 },
                 default: '',
-                required: true,
-                description: 'The ID of the order to get refunds for',
+                description: 'Beneficiary city (optional)',
             },
             {
-                displayName: 'Request ID',
-                name: 'get_refunds_request_id',
+                displayName: 'State',
+                name: 'bene_state',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['getAllRefundsForOrder'],
+                        operation: ['addBeneficiary'],
                     },
                 },
                 default: '',
-                description: 'Request ID for the API call. Can be used to resolve tech issues. Communicate this in your tech related queries to Cashfree (optional)',
+                description: 'Beneficiary state (optional)',
             },
             {
-                displayName: 'Idempotency Key',
-                name: 'get_refunds_idempotency_key',
+                displayName: 'Pincode',
+                name: 'bene_pincode',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['getAllRefundsForOrder'],
+                        operation: ['addBeneficiary'],
                     },
                 },
                 default: '',
-                description: 'An idempotency key is a unique identifier you include with your API call. If the request fails or times out, you can safely retry it using the same key to avoid duplicate actions (optional)',
-                placeholder: 'UUID format recommended',
+                description: 'Beneficiary pincode (6 digits) (optional)',
             },
 
-            // Cashgram properties - Mandatory fields first
+            // Get / Remove Beneficiary properties
             {
-                displayName: 'Cashgram ID',
-                name: 'cashgram_id',
+                displayName: 'Beneficiary ID',
+                name: 'lookup_bene_id',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['createCashgram'],
+                        operation: ['getBeneficiary', 'removeBeneficiary'],
                     },
                 },
                 default: '',
                 required: true,
-                placeholder: 'CG_001',
-                description: 'Unique identifier for the Cashgram (alphanumeric, 3-50 characters)',
+                description: 'The ID of the beneficiary',
             },
+
+            // Get Beneficiary ID properties
             {
-                displayName: 'Amount',
-                name: 'cashgram_amount',
-                type: 'number',
+                displayName: 'Bank Account Number',
+                name: 'lookup_bank_account',
+                type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['createCashgram'],
+                        operation: ['getBeneficiaryId'],
                     },
                 },
-                default: 1,
+                default: '',
                 required: true,
-                description: 'Amount in INR',
+                description: 'Bank account number of the beneficiary',
             },
             {
-                displayName: 'Name',
-                name: 'cashgram_name',
+                displayName: 'Bank IFSC',
+                name: 'lookup_ifsc',
                 type: 'string',
                 displayOptions: {
                     show: {
-                        operation: ['createCashgram'],
+                        operation: ['getBeneficiaryId'],
                     },
                 },
                 default: '',
                 required: true,
-                description: 'Recipient name',
+                description: 'IFSC code of the beneficiary bank branch',
             },
+
+            // Pagination properties (shared by list operations)
             {
-                displayName: 'Email',
-                name: 'cashgram_email',
-                type: 'string',
+                displayName: 'Return All',
+                name: 'returnAll',
+                type: 'boolean',
                 displayOptions: {
                     show: {
-                        operation: ['createCashgram'],
+                        operation: ['getOrdersForPaymentLink', 'getAllRefundsForOrder', 'getSettlements', 'getSettlementReconciliation', 'getVendorSettlements'],
                     },
                 },
-                default: '',
-                required: true,
-                placeholder: 'customer@example.com',
-                description: 'Valid email address of the recipient',
+                default: false,
+                description: 'Whether to return all results or only up to a given limit',
             },
             {
-                displayName: 'Phone',
-                name: 'cashgram_phone',
-                type: 'string',
+                displayName: 'Limit',
+                name: 'limit',
+                type: 'number',
                 displayOptions: {
                     show: {
-                        operation: ['createCashgram'],
+                        operation: ['getOrdersForPaymentLink', 'getAllRefundsForOrder', 'getSettlements', 'getSettlementReconciliation', 'getVendorSettlements'],
+                        returnAll: [false],
                     },
                 },
-                default: '',
-                required: true,
-                placeholder: '9999999999',
-                description: 'Phone number of the recipient (10 digits, without country code)',
+                typeOptions: {
+                    minValue: 1,
+                },
+                default: 50,
+                description: 'Max number of results to return',
             },
 
-            // Optional fields
+            // Amount properties (shared by operations that send an amount)
             {
-                displayName: 'Link Expiry',
-                name: 'cashgram_link_expiry',
-                type: 'string',
+                displayName: 'Amounts in Minor Units',
+                name: 'amountInMinorUnits',
+                type: 'boolean',
                 displayOptions: {
                     show: {
-                        operation: ['createCashgram'],
+                        operation: ['createOrder', 'createPaymentLink', 'createRefund', 'createCashgram', 'createTransfer', 'createSubscriptionPlan', 'chargeSubscription'],
                     },
                 },
-                default: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-                required: false,
-                description: 'Expiry date for the Cashgram link (YYYY-MM-DD format). Maximum 30 days from date of creation (optional)',
+                default: false,
+                description: 'Whether the amounts are integers in the smallest currency unit (e.g. 9999 paise for ₹99.99), as many billing systems store them. Otherwise amounts with more decimals than the currency allows are rejected.',
             },
+
+            // Validation properties (shared by create operations with customer details)
             {
-                displayName: 'Remarks',
-                name: 'cashgram_remarks',
-                type: 'string',
+                displayName: 'Normalize Phone Numbers',
+                name: 'normalizePhoneNumbers',
+                type: 'boolean',
                 displayOptions: {
                     show: {
-                        operation: ['createCashgram'],
+                        operation: ['createOrder', 'createPaymentLink', 'createCashgram'],
                     },
                 },
-                default: 'Cashgram payout',
-                required: false,
-                description: 'Additional remarks for the Cashgram (optional)',
+                default: true,
+                description: 'Whether to strip spaces, dashes, brackets and the +91/0 prefix from phone numbers, so "+91 98765-43210" is sent as 9876543210',
             },
+
+            // Wait properties (shared by create operations)
             {
-                displayName: 'Notify Customer',
-                name: 'cashgram_notify_customer',
-                type: 'options',
-                options: [
-                    {
-                        name: 'Yes',
-                        value: 1,
+                displayName: 'Wait for Terminal Status',
+                name: 'waitForTerminalStatus',
+                type: 'boolean',
+                displayOptions: {
+                    show: {
+                        operation: ['createOrder', 'createPaymentLink', 'createRefund'],
                     },
-                    {
-                        name: 'No',
-                        value: 0,
+                },
+                default: false,
+                description: 'Whether to poll the created order, payment link or refund and only output it once it reaches a terminal status (order: PAID, EXPIRED, TERMINATED; link: PAID, EXPIRED, CANCELLED; refund: SUCCESS, CANCELLED)',
+            },
+            {
+                displayName: 'Poll Interval (Seconds)',
+                name: 'waitPollInterval',
+                type: 'number',
+                displayOptions: {
+                    show: {
+                        operation: ['createOrder', 'createPaymentLink', 'createRefund'],
+                        waitForTerminalStatus: [true],
                     },
-                ],
+                },
+                typeOptions: {
+                    minValue: 1,
+                },
+                default: 10,
+                description: 'How long to wait between two status checks',
+            },
+            {
+                displayName: 'Timeout (Seconds)',
+                name: 'waitTimeout',
+                type: 'number',
                 displayOptions: {
                     show: {
-                        operation: ['createCashgram'],
+                        operation: ['createOrder', 'createPaymentLink', 'createRefund'],
+                        waitForTerminalStatus: [true],
                     },
                 },
-                default: 1,
-                required: false,
-                description: 'Whether to notify the customer about the Cashgram (1 = Yes, 0 = No) (optional)',
+                typeOptions: {
+                    minValue: 1,
+                },
+                default: 300,
+                description: 'How long to wait for a terminal status before failing the item with a timeout error',
             },
 
-            // Deactivate Cashgram properties
+            // Retry properties (shared by all operations)
             {
-                displayName: 'Cashgram ID',
-                name: 'deactivate_cashgram_id',
-                type: 'string',
+                displayName: 'Auto-Generate Idempotency Key',
+                name: 'autoIdempotencyKey',
+                type: 'boolean',
                 displayOptions: {
                     show: {
-                        operation: ['deactivateCashgram'],
+                        operation: ['createOrder', 'createPaymentLink', 'createRefund'],
                     },
                 },
-                default: '',
-                required: true,
-                description: 'The ID of the Cashgram to deactivate',
+                default: true,
+                description: 'Whether to generate a UUID idempotency key when none is given, so the request can be retried safely without creating duplicates',
+            },
+            {
+                displayName: 'Max Retries',
+                name: 'maxRetries',
+                type: 'number',
+                typeOptions: {
+                    minValue: 0,
+                    maxValue: 10,
+                },
+                default: 3,
+                description: 'How often to retry a request that failed with 429 or 5xx. Creates without an idempotency key are never retried, which includes all payout creates (Cashgrams, beneficiaries and transfers).',
+            },
+            {
+                displayName: 'Retry Base Delay (ms)',
+                name: 'retryDelay',
+                type: 'number',
+                typeOptions: {
+                    minValue: 0,
+                },
+                default: 1000,
+                description: 'Delay before the first retry. It doubles on every further attempt; a Retry-After header from Cashfree takes precedence.',
             },
         ],
     };
 
+    methods = {
+        credentialTest: {
+            async cashfreeApiTest(this: ICredentialTestFunctions, credential: ICredentialsDecrypted): Promise<INodeCredentialTestResult> {
+                const credentials = credential.data ?? {};
+
+                if (credentials.operationType === 'payout') {
+                    // Credential tests only get the legacy request helper, so adapt it to the httpRequest shape
+                    const request: HttpRequestFunction = async (options) => {
+                        const response = await this.helpers.request({
+                            method: options.method,
+                            uri: options.url,
+                            headers: options.headers,
+                            body: options.body,
+                            json: true,
+                            simple: false,
+                            resolveWithFullResponse: true,
+                        });
+                        return { statusCode: response.statusCode, headers: response.headers, body: response.body };
+                    };
+
+                    try {
+                        await CashfreePayments.getPayoutAuthToken(
+                            request,
+                            String(credentials.payoutClientId ?? '').trim(),
+                            String(credentials.payoutClientSecret ?? '').trim(),
+                            String(credentials.payoutPublicKey ?? ''),
+                            CashfreePayments.getPayoutBaseUrl(credentials)
+                        );
+                    } catch (error) {
+                        const message = error instanceof Error ? error.message : 'Unknown error';
+                        return {
+                            status: 'Error',
+                            message: CashfreePayments.describePayoutAuthError(message),
+                        };
+                    }
+
+                    return {
+                        status: 'OK',
+                        message: 'Payout authorization succeeded',
+                    };
+                }
+
+                if (!credentials.clientId || !credentials.clientSecret) {
+                    return {
+                        status: 'Error',
+                        message: 'Client ID and Client Secret are required for Payment Gateway operations',
+                    };
+                }
+
+                let baseUrl: string;
+                try {
+                    baseUrl = CashfreePayments.getPgBaseUrl(credentials);
+                } catch (error) {
+                    return {
+                        status: 'Error',
+                        message: error instanceof Error ? error.message : 'Invalid base URL',
+                    };
+                }
+
+                // Fetching a non-existent order is the cheapest authenticated call: 404 means the keys were accepted
+                const response = await this.helpers.request({
+                    method: 'GET',
+                    uri: `${baseUrl}/orders/n8n_credential_test_${Date.now()}`,
+                    headers: CashfreePayments.getPgHeaders(credentials),
+                    json: true,
+                    simple: false,
+                    resolveWithFullResponse: true,
+                });
+
+                const statusCode = response.statusCode as number;
+                const message = response.body?.message as string | undefined;
+
+                if (statusCode === 401 || statusCode === 403) {
+                    return {
+                        status: 'Error',
+                        message: `Invalid Client ID or Client Secret for the ${credentials.environment} environment${message ? ` (${message})` : ''}`,
+                    };
+                }
+
+                if (statusCode === 400 && message && /version/i.test(message)) {
+                    return {
+                        status: 'Error',
+                        message: `Invalid API Version: ${message}`,
+                    };
+                }
+
+                if (statusCode >= 500) {
+                    return {
+                        status: 'Error',
+                        message: `Cashfree returned ${statusCode}${message ? `: ${message}` : ''}. Try again later.`,
+                    };
+                }
+
+                return {
+                    status: 'OK',
+                    message: 'Payment Gateway authentication succeeded',
+                };
+            },
+        },
+        listSearch: {
+            // Cashfree has no endpoint to list orders, so recently settled orders are read from the reconciliation report
+            async searchSettledOrders(this: ILoadOptionsFunctions, filter?: string, paginationToken?: string): Promise<INodeListSearchResult> {
+                const credentials = await this.getCredentials('cashfreeApi');
+                const endDate = new Date();
+                const startDate = new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+                const response = await this.helpers.httpRequest({
+                    method: 'POST',
+                    url: `${CashfreePayments.getPgBaseUrl(credentials)}/settlement/recon`,
+                    headers: CashfreePayments.getPgHeaders(credentials),
+                    body: {
+                        filters: {
+                            start_date: startDate.toISOString(),
+                            end_date: endDate.toISOString(),
+                        },
+                        pagination: {
+                            limit: CashfreePayments.PAGE_SIZE,
+                            ...(paginationToken ? { cursor: paginationToken } : {}),
+                        },
+                    },
+                    json: true,
+                });
+
+                const seen = new Set<string>();
+                const results: INodeListSearchItems[] = [];
+                for (const row of ((response?.data ?? []) as IDataObject[])) {
+                    const orderId = row.order_id ? String(row.order_id) : '';
+                    if (!orderId || seen.has(orderId)) continue;
+                    if (filter && !orderId.toLowerCase().includes(filter.toLowerCase())) continue;
+                    seen.add(orderId);
+                    results.push({
+                        name: row.event_amount !== undefined ? `${orderId} (${row.event_amount} ${row.event_currency ?? 'INR'})` : orderId,
+                        value: orderId,
+                    });
+                }
+
+                return { results, paginationToken: response?.cursor || undefined };
+            },
+        },
+    };
+
     async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
         const items = this.getInputData();
         const returnData: INodeExecutionData[] = [];
@@ -1172,9 +4156,9 @@ export class CashfreePayments implements INodeType {
                 const operation = this.getNodeParameter('operation', i) as string;
 
                 // Validate credentials based on operation type
-                if (operation === 'createCashgram' || operation === 'deactivateCashgram') {
+                if (PAYOUT_OPERATIONS.includes(operation)) {
                     if (!credentials.payoutClientId || !credentials.payoutClientSecret || !credentials.payoutPublicKey) {
-                        throw new Error('Payout Client ID, Client Secret, and Public Key are required for Cashgram operations. Please configure them in the credentials.');
+                        throw new Error('Payout Client ID, Client Secret, and Public Key are required for payout operations (Cashgram, transfers). Please configure them in the credentials.');
                     }
                 } else {
                     // For all other operations (Payment Gateway), require Client ID and Secret
@@ -1183,14 +4167,27 @@ export class CashfreePayments implements INodeType {
                     }
                 }
 
+                const retryOptions: RetryOptions = {
+                    maxRetries: this.getNodeParameter('maxRetries', i, 3) as number,
+                    baseDelay: this.getNodeParameter('retryDelay', i, 1000) as number,
+                };
+
                 let responseData: any;
-                const baseUrl = credentials.environment === 'sandbox' ? 'https://sandbox.cashfree.com/pg' : 'https://api.cashfree.com/pg';
+                const baseUrl = CashfreePayments.getPgBaseUrl(credentials);
 
                 if (operation === 'createOrder') {
-                    const orderAmount = this.getNodeParameter('orderAmount', i) as number;
                     const orderCurrency = this.getNodeParameter('orderCurrency', i) as string;
+                    const amountInMinorUnits = this.getNodeParameter('amountInMinorUnits', i, false) as boolean;
+                    const validator = new ParameterValidator();
+                    const orderAmount = CashfreePayments.normalizeAmount(
+                        validator,
+                        this.getNodeParameter('orderAmount', i) as number,
+                        orderCurrency,
+                        amountInMinorUnits,
+                        'Order Amount',
+                    );
                     const customerId = this.getNodeParameter('customerId', i) as string;
-                    const customerPhone = this.getNodeParameter('customerPhone', i) as string;
+                    const customerPhone = CashfreePayments.normalizePhone(this, this.getNodeParameter('customerPhone', i) as string, i);
 
                     // Build customer_details object
                     const customerDetails: any = {
@@ -1228,7 +4225,7 @@ export class CashfreePayments implements INodeType {
                     const customerNote = this.getNodeParameter('customer_note', i, '') as string;
                     const enableOneClickCheckout = this.getNodeParameter('enable_one_click_checkout', i, false) as boolean;
                     const enableVerifyAndPay = this.getNodeParameter('enable_verify_and_pay', i, false) as boolean;
-                    const idempotencyKey = this.getNodeParameter('idempotency_key', i, '') as string;
+                    const idempotencyKey = CashfreePayments.getIdempotencyKey(this, 'idempotency_key', i);
 
                     if (orderId) body.order_id = orderId;
                     if (orderNote) body.order_note = orderNote;
@@ -1250,6 +4247,23 @@ export class CashfreePayments implements INodeType {
                         throw new Error(`Invalid JSON format for cart_details: ${error instanceof Error ? error.message : 'Unknown error'}`);
                     }
 
+                    const orderSplits = this.getNodeParameter('order_splits.splits', i, []) as IDataObject[];
+                    if (orderSplits.length > 0) {
+                        body.order_splits = CashfreePayments.buildOrderSplits(validator, orderSplits, orderAmount, orderCurrency, amountInMinorUnits);
+                    }
+
+                    validator.id('customer_id', customerId, 3, 50);
+                    validator.phone('customer_phone', customerPhone, true);
+                    validator.email('customer_email', customerEmail);
+                    validator.length('customer_name', customerName, 3, 100);
+                    validator.length('customer_bank_account_number', customerBankAccount, 3, 20);
+                    validator.ifsc('customer_bank_ifsc', customerBankIfsc);
+                    validator.id('order_id', orderId, 3, 45);
+                    validator.length('order_note', orderNote, 3, 200);
+                    validator.url('return_url', returnUrl, false);
+                    validator.url('notify_url', notifyUrl, true);
+                    validator.throwIfInvalid(this.getNode(), i);
+
                     if (customerNote) body.customer_note = customerNote;
                     if (enableOneClickCheckout) body.enable_one_click_checkout = enableOneClickCheckout;
                     if (enableVerifyAndPay) body.enable_verify_and_pay = enableVerifyAndPay;
@@ -1267,28 +4281,134 @@ export class CashfreePayments implements INodeType {
                         throw new Error(`Invalid JSON format for terminal: ${error instanceof Error ? error.message : 'Unknown error'}`);
                     }
 
-                    // Prepare headers
-                    const headers: any = {
-                        'Content-Type': 'application/json',
-                        'x-api-version': credentials.apiVersion,
-                        'x-client-id': credentials.clientId,
-                        'x-client-secret': credentials.clientSecret,
-                    };
+                    const headers = CashfreePayments.getPgHeaders(credentials, '', idempotencyKey);
+
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'POST',
+                        url: `${baseUrl}/orders`,
+                        headers,
+                        body,
+                        json: true,
+                    });
+
+                    responseData = response;
+
+                    const waitOptions = CashfreePayments.getWaitOptions(this, i);
+                    if (waitOptions) {
+                        responseData = await CashfreePayments.waitForTerminalStatus(this, retryOptions, waitOptions, {
+                            url: `${baseUrl}/orders/${encodeURIComponent(response.order_id)}`,
+                            headers: CashfreePayments.getPgHeaders(credentials),
+                        }, response, 'order_status', CashfreePayments.ORDER_TERMINAL_STATUSES, `order ${response.order_id}`);
+                    }
+                } else if (operation === 'getOrder' || operation === 'getPaymentsForOrder' || operation === 'getPaymentById') {
+                    const orderId = this.getNodeParameter('get_order_id', i) as string;
+                    const requestId = this.getNodeParameter('get_order_request_id', i, '') as string;
+
+                    let url = `${baseUrl}/orders/${encodeURIComponent(orderId)}`;
+                    if (operation === 'getPaymentsForOrder') {
+                        url += '/payments';
+                    } else if (operation === 'getPaymentById') {
+                        const paymentId = this.getNodeParameter('cf_payment_id', i) as string;
+                        url += `/payments/${encodeURIComponent(paymentId)}`;
+                    }
+
+                    const headers = CashfreePayments.getPgHeaders(credentials, requestId);
+
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'GET',
+                        url,
+                        headers,
+                        json: true,
+                    });
+
+                    responseData = response;
+                } else if (operation === 'orderPay') {
+                    const paymentSessionId = this.getNodeParameter('pay_payment_session_id', i) as string;
+                    const paymentMethodType = this.getNodeParameter('pay_payment_method', i) as string;
 
-                    // Add idempotency key to headers if provided
-                    if (idempotencyKey) {
-                        headers['x-idempotency-key'] = idempotencyKey;
+                    let paymentMethod: IDataObject;
+                    if (paymentMethodType === 'upiCollect') {
+                        const upi: IDataObject = {
+                            channel: 'collect',
+                            upi_id: this.getNodeParameter('pay_upi_id', i) as string,
+                        };
+                        const upiExpiryMinutes = this.getNodeParameter('pay_upi_expiry_minutes', i, 0) as number;
+                        if (upiExpiryMinutes > 0) upi.upi_expiry_minutes = upiExpiryMinutes;
+                        paymentMethod = { upi };
+                    } else if (paymentMethodType === 'upiQrCode') {
+                        paymentMethod = { upi: { channel: 'qrcode' } };
+                    } else if (paymentMethodType === 'upiIntent') {
+                        paymentMethod = { upi: { channel: 'link' } };
+                    } else if (paymentMethodType === 'netbanking') {
+                        paymentMethod = {
+                            netbanking: {
+                                channel: 'link',
+                                netbanking_bank_code: this.getNodeParameter('pay_netbanking_bank_code', i) as number,
+                            },
+                        };
+                    } else {
+                        throw new Error(`Unsupported payment method: ${paymentMethodType}`);
                     }
 
-                    const response = await this.helpers.httpRequest({
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    // Each call starts a new payment attempt, so it is never retried automatically
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
                         method: 'POST',
-                        url: `${baseUrl}/orders`,
+                        url: `${baseUrl}/orders/sessions`,
                         headers,
-                        body,
+                        body: {
+                            payment_session_id: paymentSessionId,
+                            payment_method: paymentMethod,
+                        },
                         json: true,
-                    });
+                    }, false);
 
-                    responseData = response;
+                    // Surface the action data next to the raw response so later nodes can send it to the customer
+                    const actionData = (response.data ?? {}) as IDataObject;
+                    const payload = (actionData.payload ?? {}) as IDataObject;
+                    responseData = {
+                        ...response,
+                        redirect_url: actionData.url ?? null,
+                        qr_code: payload.qrcode ?? null,
+                    };
+                } else if (operation === 'terminateOrder') {
+                    const orderId = this.getNodeParameter('terminate_order_id', i) as string;
+                    const requestId = this.getNodeParameter('terminate_request_id', i, '') as string;
+
+                    const headers = CashfreePayments.getPgHeaders(credentials, requestId);
+
+                    try {
+                        // Terminating sets an absolute status, so a repeated request has the same effect
+                        const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                            method: 'PATCH',
+                            url: `${baseUrl}/orders/${encodeURIComponent(orderId)}`,
+                            headers,
+                            body: { order_status: 'TERMINATED' },
+                            json: true,
+                        }, true);
+
+                        // Cashfree answers TERMINATION_REQUESTED while a payment attempt is still pending
+                        responseData = {
+                            ...response,
+                            terminated: response.order_status === 'TERMINATED',
+                            payment_in_progress: response.order_status === 'TERMINATION_REQUESTED',
+                        };
+                    } catch (error) {
+                        // A rejection because a payment is in progress is an expected outcome, not a failure
+                        const errorDetails = CashfreePayments.getCashfreeErrorDetails(error);
+                        if (!errorDetails || !CashfreePayments.isPaymentInProgressError(errorDetails)) {
+                            throw error;
+                        }
+
+                        responseData = {
+                            order_id: orderId,
+                            terminated: false,
+                            payment_in_progress: true,
+                            message: errorDetails.message,
+                            code: errorDetails.code,
+                        };
+                    }
                 } else if (operation === 'createPaymentLink') {
                     // Get link notes as JSON object
                     let linkNotes: any = {};
@@ -1299,19 +4419,22 @@ export class CashfreePayments implements INodeType {
                         throw new Error(`Invalid JSON format for link_notes: ${error instanceof Error ? error.message : 'Unknown error'}`);
                     }
 
-                    const paymentLinkIdempotencyKey = this.getNodeParameter('payment_link_idempotency_key', i, '') as string;
+                    const paymentLinkIdempotencyKey = CashfreePayments.getIdempotencyKey(this, 'payment_link_idempotency_key', i);
+                    const linkCurrency = this.getNodeParameter('link_currency', i, 'INR') as string;
+                    const amountInMinorUnits = this.getNodeParameter('amountInMinorUnits', i, false) as boolean;
+                    const validator = new ParameterValidator();
 
                     const body: any = {
                         customer_details: {
                             customer_email: this.getNodeParameter('customer_email', i, '') as string,
                             customer_name: this.getNodeParameter('customer_name', i, '') as string,
-                            customer_phone: this.getNodeParameter('customer_phone', i, '') as string,
+                            customer_phone: CashfreePayments.normalizePhone(this, this.getNodeParameter('customer_phone', i, '') as string, i),
                             customer_bank_account_number: this.getNodeParameter('customer_bank_account_number', i, '') as string,
                             customer_bank_ifsc: this.getNodeParameter('customer_bank_ifsc', i, '') as string,
                             customer_bank_code: this.getNodeParameter('customer_bank_code', i, '') as string,
                         },
-                        link_amount: this.getNodeParameter('link_amount', i) as number,
-                        link_currency: this.getNodeParameter('link_currency', i, 'INR') as string,
+                        link_amount: CashfreePayments.normalizeAmount(validator, this.getNodeParameter('link_amount', i) as number, linkCurrency, amountInMinorUnits, 'Link Amount'),
+                        link_currency: linkCurrency,
                         link_id: this.getNodeParameter('link_id', i) as string,
                         link_purpose: this.getNodeParameter('link_purpose', i) as string,
                         link_expiry_time: this.getNodeParameter('link_expiry_time', i, '') as string,
@@ -1322,8 +4445,41 @@ export class CashfreePayments implements INodeType {
                             upi_intent: this.getNodeParameter('upi_intent', i) as boolean,
                         },
                         link_notes: linkNotes,
+                        link_notify: {
+                            send_sms: this.getNodeParameter('link_notify_send_sms', i, false) as boolean,
+                            send_email: this.getNodeParameter('link_notify_send_email', i, false) as boolean,
+                        },
+                        link_auto_reminders: this.getNodeParameter('link_auto_reminders', i, false) as boolean,
+                        link_partial_payments: this.getNodeParameter('link_partial_payments', i, false) as boolean,
                     };
 
+                    validator.id('link_id', body.link_id, 1, 50);
+                    validator.length('link_purpose', body.link_purpose, 1, 500);
+                    validator.phone('customer_phone', body.customer_details.customer_phone, true);
+                    validator.email('customer_email', body.customer_details.customer_email);
+                    validator.ifsc('customer_bank_ifsc', body.customer_details.customer_bank_ifsc);
+                    validator.url('return_url', body.link_meta.return_url, false);
+                    validator.url('notify_url', body.link_meta.notify_url, true);
+
+                    // Validate notification and partial payment options before calling Cashfree
+                    if (body.link_notify.send_email && !body.customer_details.customer_email) {
+                        validator.violations.push('Customer Email is required when Send Email is enabled for a payment link');
+                    }
+                    if (body.link_notify.send_sms && !body.customer_details.customer_phone) {
+                        validator.violations.push('Customer Phone is required when Send SMS is enabled for a payment link');
+                    }
+                    if (body.link_partial_payments) {
+                        const minimumPartialParam = this.getNodeParameter('link_minimum_partial_amount', i, 0) as number;
+                        const minimumPartialAmount = minimumPartialParam === 0
+                            ? 0
+                            : CashfreePayments.normalizeAmount(validator, minimumPartialParam, linkCurrency, amountInMinorUnits, 'Minimum Partial Amount');
+                        if (minimumPartialAmount >= body.link_amount) {
+                            validator.violations.push(`Minimum Partial Amount must be greater than 0 and less than the link amount (${body.link_amount})`);
+                        }
+                        if (minimumPartialAmount > 0) body.link_minimum_partial_amount = minimumPartialAmount;
+                    }
+                    validator.throwIfInvalid(this.getNode(), i);
+
                     // Remove empty fields
                     if (!body.link_expiry_time) delete body.link_expiry_time;
                     if (!body.link_meta.payment_methods) delete body.link_meta.payment_methods;
@@ -1331,20 +4487,9 @@ export class CashfreePayments implements INodeType {
                     if (!body.customer_details.customer_bank_ifsc || body.customer_details.customer_bank_ifsc.trim() === '') delete body.customer_details.customer_bank_ifsc;
                     if (!body.customer_details.customer_bank_code || body.customer_details.customer_bank_code.trim() === '') delete body.customer_details.customer_bank_code;
 
-                    // Prepare headers
-                    const headers: any = {
-                        'Content-Type': 'application/json',
-                        'x-api-version': credentials.apiVersion,
-                        'x-client-id': credentials.clientId,
-                        'x-client-secret': credentials.clientSecret,
-                    };
-
-                    // Add idempotency key to headers if provided
-                    if (paymentLinkIdempotencyKey) {
-                        headers['x-idempotency-key'] = paymentLinkIdempotencyKey;
-                    }
+                    const headers = CashfreePayments.getPgHeaders(credentials, '', paymentLinkIdempotencyKey);
 
-                    const response = await this.helpers.httpRequest({
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
                         method: 'POST',
                         url: `${baseUrl}/links`,
                         headers,
@@ -1353,22 +4498,22 @@ export class CashfreePayments implements INodeType {
                     });
 
                     responseData = response;
+
+                    const waitOptions = CashfreePayments.getWaitOptions(this, i);
+                    if (waitOptions) {
+                        responseData = await CashfreePayments.waitForTerminalStatus(this, retryOptions, waitOptions, {
+                            url: `${baseUrl}/links/${encodeURIComponent(response.link_id)}`,
+                            headers: CashfreePayments.getPgHeaders(credentials),
+                        }, response, 'link_status', CashfreePayments.LINK_TERMINAL_STATUSES, `payment link ${response.link_id}`);
+                    }
                 } else if (operation === 'cancelPaymentLink') {
-                    const linkId = this.getNodeParameter('cancel_link_id', i) as string;
+                    const linkId = this.getNodeParameter('cancel_link_id', i, '', { extractValue: true }) as string;
                     const requestId = this.getNodeParameter('cancel_request_id', i, '') as string;
                     const idempotencyKey = this.getNodeParameter('cancel_idempotency_key', i, '') as string;
 
-                    const headers: any = {
-                        'Content-Type': 'application/json',
-                        'x-api-version': credentials.apiVersion,
-                        'x-client-id': credentials.clientId,
-                        'x-client-secret': credentials.clientSecret,
-                    };
-
-                    if (requestId) headers['x-request-id'] = requestId;
-                    if (idempotencyKey) headers['x-idempotency-key'] = idempotencyKey;
+                    const headers = CashfreePayments.getPgHeaders(credentials, requestId, idempotencyKey);
 
-                    const response = await this.helpers.httpRequest({
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
                         method: 'POST',
                         url: `${baseUrl}/links/${linkId}/cancel`,
                         headers,
@@ -1377,21 +4522,13 @@ export class CashfreePayments implements INodeType {
 
                     responseData = response;
                 } else if (operation === 'fetchPaymentLinkDetails') {
-                    const linkId = this.getNodeParameter('fetch_details_link_id', i) as string;
+                    const linkId = this.getNodeParameter('fetch_details_link_id', i, '', { extractValue: true }) as string;
                     const requestId = this.getNodeParameter('fetch_details_request_id', i, '') as string;
                     const idempotencyKey = this.getNodeParameter('fetch_details_idempotency_key', i, '') as string;
 
-                    const headers: any = {
-                        'Content-Type': 'application/json',
-                        'x-api-version': credentials.apiVersion,
-                        'x-client-id': credentials.clientId,
-                        'x-client-secret': credentials.clientSecret,
-                    };
-
-                    if (requestId) headers['x-request-id'] = requestId;
-                    if (idempotencyKey) headers['x-idempotency-key'] = idempotencyKey;
+                    const headers = CashfreePayments.getPgHeaders(credentials, requestId, idempotencyKey);
 
-                    const response = await this.helpers.httpRequest({
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
                         method: 'GET',
                         url: `${baseUrl}/links/${linkId}`,
                         headers,
@@ -1400,36 +4537,42 @@ export class CashfreePayments implements INodeType {
 
                     responseData = response;
                 } else if (operation === 'getOrdersForPaymentLink') {
-                    const linkId = this.getNodeParameter('get_orders_link_id', i) as string;
+                    const linkId = this.getNodeParameter('get_orders_link_id', i, '', { extractValue: true }) as string;
                     const requestId = this.getNodeParameter('get_orders_request_id', i, '') as string;
                     const idempotencyKey = this.getNodeParameter('get_orders_idempotency_key', i, '') as string;
                     const status = this.getNodeParameter('get_orders_status', i, 'PAID') as string;
 
-                    const headers: any = {
-                        'x-api-version': credentials.apiVersion,
-                        'x-client-id': credentials.clientId,
-                        'x-client-secret': credentials.clientSecret,
-                    };
+                    const returnAll = this.getNodeParameter('returnAll', i, false) as boolean;
+                    const limit = this.getNodeParameter('limit', i, 50) as number;
 
-                    if (requestId) headers['x-request-id'] = requestId;
-                    if (idempotencyKey) headers['x-idempotency-key'] = idempotencyKey;
+                    const headers = CashfreePayments.getPgHeaders(credentials, requestId, idempotencyKey);
 
-                    const response = await this.helpers.httpRequest({
+                    responseData = await CashfreePayments.pgRequestAllItems(this, retryOptions, {
                         method: 'GET',
-                        url: `${baseUrl}/links/${linkId}/orders?status=${status}`,
+                        url: `${baseUrl}/links/${linkId}/orders`,
+                        qs: { status },
                         headers,
-                        json: true,
-                    });
-
-                    responseData = response;
+                    }, returnAll, limit);
                 } else if (operation === 'createRefund') {
-                    const orderId = this.getNodeParameter('refund_order_id', i) as string;
-                    const refundAmount = this.getNodeParameter('refund_amount', i) as number;
+                    const orderId = this.getNodeParameter('refund_order_id', i, '', { extractValue: true }) as string;
+                    const validator = new ParameterValidator();
+                    const refundAmount = CashfreePayments.normalizeAmount(
+                        validator,
+                        this.getNodeParameter('refund_amount', i) as number,
+                        this.getNodeParameter('refund_currency', i, 'INR') as string,
+                        this.getNodeParameter('amountInMinorUnits', i, false) as boolean,
+                        'Refund Amount',
+                    );
                     const refundId = this.getNodeParameter('refund_id', i) as string;
                     const refundNote = this.getNodeParameter('refund_note', i) as string;
                     const refundSpeed = this.getNodeParameter('refund_speed', i) as string;
                     const xRequestId = this.getNodeParameter('x_request_id', i, '') as string;
-                    const xIdempotencyKey = this.getNodeParameter('x_idempotency_key', i, '') as string;
+                    const xIdempotencyKey = CashfreePayments.getIdempotencyKey(this, 'x_idempotency_key', i);
+
+                    validator.id('order_id', orderId, 3, 45);
+                    validator.id('refund_id', refundId, 3, 40);
+                    validator.length('refund_note', refundNote, 3, 100);
+                    validator.throwIfInvalid(this.getNode(), i);
 
                     const body = {
                         refund_amount: refundAmount,
@@ -1438,17 +4581,9 @@ export class CashfreePayments implements INodeType {
                         refund_speed: refundSpeed,
                     };
 
-                    const headers: any = {
-                        'Content-Type': 'application/json',
-                        'x-api-version': credentials.apiVersion,
-                        'x-client-id': credentials.clientId,
-                        'x-client-secret': credentials.clientSecret,
-                    };
-
-                    if (xRequestId) headers['x-request-id'] = xRequestId;
-                    if (xIdempotencyKey) headers['x-idempotency-key'] = xIdempotencyKey;
+                    const headers = CashfreePayments.getPgHeaders(credentials, xRequestId, xIdempotencyKey);
 
-                    const response = await this.helpers.httpRequest({
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
                         method: 'POST',
                         url: `${baseUrl}/orders/${orderId}/refunds`,
                         headers,
@@ -1457,131 +4592,730 @@ export class CashfreePayments implements INodeType {
                     });
 
                     responseData = response;
+
+                    const waitOptions = CashfreePayments.getWaitOptions(this, i);
+                    if (waitOptions) {
+                        responseData = await CashfreePayments.waitForTerminalStatus(this, retryOptions, waitOptions, {
+                            url: `${baseUrl}/orders/${encodeURIComponent(orderId)}/refunds/${encodeURIComponent(refundId)}`,
+                            headers: CashfreePayments.getPgHeaders(credentials),
+                        }, response, 'refund_status', CashfreePayments.REFUND_TERMINAL_STATUSES, `refund ${refundId}`);
+                    }
+                } else if (operation === 'getRefund') {
+                    const orderId = this.getNodeParameter('get_refund_order_id', i) as string;
+                    const refundId = this.getNodeParameter('get_refund_id', i) as string;
+                    const simplify = this.getNodeParameter('get_refund_simplify', i, true) as boolean;
+                    const requestId = this.getNodeParameter('get_refund_request_id', i, '') as string;
+
+                    const headers = CashfreePayments.getPgHeaders(credentials, requestId);
+
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'GET',
+                        url: `${baseUrl}/orders/${encodeURIComponent(orderId)}/refunds/${encodeURIComponent(refundId)}`,
+                        headers,
+                        json: true,
+                    });
+
+                    responseData = simplify ? CashfreePayments.simplifyRefund(response) : response;
                 } else if (operation === 'getAllRefundsForOrder') {
                     const orderId = this.getNodeParameter('get_refunds_order_id', i) as string;
                     const requestId = this.getNodeParameter('get_refunds_request_id', i, '') as string;
                     const idempotencyKey = this.getNodeParameter('get_refunds_idempotency_key', i, '') as string;
 
-                    const headers: any = {
-                        'x-api-version': credentials.apiVersion,
-                        'x-client-id': credentials.clientId,
-                        'x-client-secret': credentials.clientSecret,
-                    };
+                    const returnAll = this.getNodeParameter('returnAll', i, false) as boolean;
+                    const limit = this.getNodeParameter('limit', i, 50) as number;
 
-                    if (requestId) headers['x-request-id'] = requestId;
-                    if (idempotencyKey) headers['x-idempotency-key'] = idempotencyKey;
+                    const headers = CashfreePayments.getPgHeaders(credentials, requestId, idempotencyKey);
 
-                    const response = await this.helpers.httpRequest({
+                    responseData = await CashfreePayments.pgRequestAllItems(this, retryOptions, {
                         method: 'GET',
                         url: `${baseUrl}/orders/${orderId}/refunds`,
                         headers,
+                    }, returnAll, limit);
+                } else if (operation === 'getSettlements' || operation === 'getSettlementReconciliation') {
+                    const startDate = this.getNodeParameter('settlement_start_date', i) as string;
+                    const endDate = this.getNodeParameter('settlement_end_date', i) as string;
+                    const settlementIds = this.getNodeParameter('cf_settlement_ids', i, '') as string;
+                    const returnAll = this.getNodeParameter('returnAll', i, false) as boolean;
+                    const limit = this.getNodeParameter('limit', i, 50) as number;
+
+                    const filters: IDataObject = {
+                        start_date: startDate,
+                        end_date: endDate,
+                    };
+
+                    if (settlementIds) {
+                        filters.cf_settlement_ids = settlementIds
+                            .split(',')
+                            .map((id) => id.trim())
+                            .filter((id) => id !== '')
+                            .map((id) => Number(id));
+                    }
+
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    responseData = await CashfreePayments.pgRequestAllItems(this, retryOptions, {
+                        method: 'POST',
+                        url: operation === 'getSettlements' ? `${baseUrl}/settlements` : `${baseUrl}/settlement/recon`,
+                        headers,
+                        body: { filters },
+                    }, returnAll, limit);
+                } else if (operation === 'getSettlementForOrder') {
+                    const orderId = this.getNodeParameter('settlement_order_id', i) as string;
+
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'GET',
+                        url: `${baseUrl}/orders/${encodeURIComponent(orderId)}/settlements`,
+                        headers,
                         json: true,
                     });
 
                     responseData = response;
-                } else if (operation === 'createCashgram') {
-                    // Get payout authorization token
-                    const authToken = await CashfreePayments.getPayoutAuthToken(
-                        String(credentials.payoutClientId).trim(),
-                        String(credentials.payoutClientSecret).trim(),
-                        credentials.payoutPublicKey as string,
-                        credentials.environment as string
-                    );
+                } else if (operation === 'createVendor') {
+                    const paymentMethod = this.getNodeParameter('vendor_payment_method', i) as string;
+                    const accountHolder = this.getNodeParameter('vendor_account_holder', i) as string;
+
+                    const body: IDataObject = {
+                        vendor_id: this.getNodeParameter('vendor_id', i) as string,
+                        status: 'ACTIVE',
+                        name: this.getNodeParameter('vendor_name', i) as string,
+                        email: this.getNodeParameter('vendor_email', i) as string,
+                        phone: this.getNodeParameter('vendor_phone', i) as string,
+                        verify_account: this.getNodeParameter('vendor_verify_account', i, false) as boolean,
+                        dashboard_access: this.getNodeParameter('vendor_dashboard_access', i, false) as boolean,
+                        schedule_option: this.getNodeParameter('vendor_schedule_option', i) as number,
+                    };
+
+                    if (paymentMethod === 'upi') {
+                        body.upi = {
+                            vpa: this.getNodeParameter('vendor_upi_vpa', i) as string,
+                            account_holder: accountHolder,
+                        };
+                    } else {
+                        body.bank = {
+                            account_number: this.getNodeParameter('vendor_bank_account_number', i) as string,
+                            account_holder: accountHolder,
+                            ifsc: this.getNodeParameter('vendor_bank_ifsc', i) as string,
+                        };
+                    }
+
+                    try {
+                        const kycParam = this.getNodeParameter('vendor_kyc_details', i, '{}') as string;
+                        const kycDetails = typeof kycParam === 'string' ? JSON.parse(kycParam) : kycParam;
+                        if (Object.keys(kycDetails).length > 0) {
+                            body.kyc_details = kycDetails;
+                        }
+                    } catch (error) {
+                        throw new Error(`Invalid JSON format for kyc_details: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                    }
+
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    // Vendor creates carry no idempotency key, so they are never retried automatically
+                    responseData = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'POST',
+                        url: `${baseUrl}/easy-split/vendors`,
+                        headers,
+                        body,
+                        json: true,
+                    });
+                } else if (operation === 'updateVendor') {
+                    const vendorId = this.getNodeParameter('vendor_id', i) as string;
+                    const updateFields = this.getNodeParameter('vendor_update_fields', i, {}) as IDataObject;
+
+                    const body: IDataObject = {};
+                    for (const field of ['name', 'email', 'phone', 'status', 'schedule_option']) {
+                        if (updateFields[field] !== undefined && updateFields[field] !== '') body[field] = updateFields[field];
+                    }
+
+                    if (updateFields.account_number || updateFields.ifsc) {
+                        body.bank = {
+                            account_number: updateFields.account_number,
+                            account_holder: updateFields.account_holder,
+                            ifsc: updateFields.ifsc,
+                        };
+                    }
+                    if (updateFields.vpa) {
+                        body.upi = {
+                            vpa: updateFields.vpa,
+                            account_holder: updateFields.account_holder,
+                        };
+                    }
+
+                    if (updateFields.kyc_details) {
+                        try {
+                            const kycDetails = typeof updateFields.kyc_details === 'string' ? JSON.parse(updateFields.kyc_details) : updateFields.kyc_details;
+                            if (Object.keys(kycDetails).length > 0) {
+                                body.kyc_details = kycDetails;
+                            }
+                        } catch (error) {
+                            throw new Error(`Invalid JSON format for kyc_details: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                        }
+                    }
+
+                    if (Object.keys(body).length === 0) {
+                        throw new Error('Please add at least one field to update for the vendor');
+                    }
+
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    // Updates set absolute values, so repeating one has the same effect
+                    responseData = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'PATCH',
+                        url: `${baseUrl}/easy-split/vendors/${encodeURIComponent(vendorId)}`,
+                        headers,
+                        body,
+                        json: true,
+                    }, true);
+                } else if (operation === 'getVendor') {
+                    const vendorId = this.getNodeParameter('vendor_id', i) as string;
+
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    responseData = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'GET',
+                        url: `${baseUrl}/easy-split/vendors/${encodeURIComponent(vendorId)}`,
+                        headers,
+                        json: true,
+                    });
+                } else if (operation === 'getVendorSettlements') {
+                    const orderIds = this.getNodeParameter('vendor_settlement_order_ids', i, '') as string;
+                    const returnAll = this.getNodeParameter('returnAll', i, false) as boolean;
+                    const limit = this.getNodeParameter('limit', i, 50) as number;
+
+                    const filters: IDataObject = {
+                        start_date: this.getNodeParameter('vendor_settlement_start_date', i) as string,
+                        end_date: this.getNodeParameter('vendor_settlement_end_date', i) as string,
+                    };
+
+                    if (orderIds) {
+                        filters.order_ids = orderIds
+                            .split(',')
+                            .map((id) => id.trim())
+                            .filter((id) => id !== '');
+                    }
+
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    responseData = await CashfreePayments.pgRequestAllItems(this, retryOptions, {
+                        method: 'POST',
+                        url: `${baseUrl}/split/order/vendor/recon`,
+                        headers,
+                        body: { filters },
+                    }, returnAll, limit);
+                } else if (operation === 'getDisputesForOrder' || operation === 'getDispute') {
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    const url = operation === 'getDisputesForOrder'
+                        ? `${baseUrl}/orders/${encodeURIComponent(this.getNodeParameter('dispute_order_id', i) as string)}/disputes`
+                        : `${baseUrl}/disputes/${encodeURIComponent(this.getNodeParameter('dispute_id', i) as string)}`;
+
+                    responseData = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'GET',
+                        url,
+                        headers,
+                        json: true,
+                    });
+                } else if (operation === 'acceptDispute') {
+                    const disputeId = this.getNodeParameter('dispute_id', i) as string;
+
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    // Accepting an already accepted dispute changes nothing, so it is safe to repeat
+                    responseData = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'PUT',
+                        url: `${baseUrl}/disputes/${encodeURIComponent(disputeId)}/accept`,
+                        headers,
+                        json: true,
+                    }, true);
+                } else if (operation === 'submitDisputeEvidence') {
+                    const disputeId = this.getNodeParameter('dispute_id', i) as string;
+                    const documentType = this.getNodeParameter('dispute_document_type', i) as string;
+                    const note = this.getNodeParameter('dispute_note', i, '') as string;
+                    const binaryProperties = (this.getNodeParameter('dispute_binary_properties', i) as string)
+                        .split(',')
+                        .map((name) => name.trim())
+                        .filter((name) => name !== '');
+
+                    if (binaryProperties.length === 0) {
+                        throw new Error('Please specify at least one binary property that holds an evidence document');
+                    }
+
+                    const results: IDataObject[] = [];
+                    for (const binaryProperty of binaryProperties) {
+                        const binaryData = this.helpers.assertBinaryData(i, binaryProperty);
+                        const content = await this.helpers.getBinaryDataBuffer(i, binaryProperty);
+
+                        const fields: IDataObject = { doc_type: documentType };
+                        if (note) fields.note = note;
+
+                        const multipart = CashfreePayments.buildMultipartBody(fields, {
+                            name: 'file',
+                            fileName: binaryData.fileName ?? `${binaryProperty}.bin`,
+                            mimeType: binaryData.mimeType,
+                            content,
+                        });
+
+                        // getPgHeaders sets a JSON content type, which the multipart boundary has to replace
+                        const headers = {
+                            ...CashfreePayments.getPgHeaders(credentials),
+                            'Content-Type': multipart.contentType,
+                        };
 
+                        // Every upload adds a document to the dispute, so uploads are never retried automatically
+                        const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                            method: 'POST',
+                            url: `${baseUrl}/disputes/${encodeURIComponent(disputeId)}/documents`,
+                            headers,
+                            body: multipart.body,
+                            json: false,
+                        }, false);
+
+                        const parsed = typeof response === 'string' && response !== '' ? JSON.parse(response) : response;
+                        results.push({ ...(parsed as IDataObject), binary_property: binaryProperty });
+                    }
+
+                    responseData = results;
+                } else if (operation === 'createSubscriptionPlan') {
+                    const planType = this.getNodeParameter('plan_type', i) as string;
+                    const planCurrency = this.getNodeParameter('plan_currency', i, 'INR') as string;
+                    const amountInMinorUnits = this.getNodeParameter('amountInMinorUnits', i, false) as boolean;
+                    const validator = new ParameterValidator();
+
+                    const body: IDataObject = {
+                        plan_id: this.getNodeParameter('plan_id', i) as string,
+                        plan_name: this.getNodeParameter('plan_name', i) as string,
+                        plan_type: planType,
+                        plan_currency: planCurrency,
+                        plan_max_amount: CashfreePayments.normalizeAmount(
+                            validator,
+                            this.getNodeParameter('plan_max_amount', i) as number,
+                            planCurrency,
+                            amountInMinorUnits,
+                            'Max Amount',
+                        ),
+                    };
+
+                    if (planType === 'PERIODIC') {
+                        body.plan_recurring_amount = CashfreePayments.normalizeAmount(
+                            validator,
+                            this.getNodeParameter('plan_recurring_amount', i) as number,
+                            planCurrency,
+                            amountInMinorUnits,
+                            'Recurring Amount',
+                        );
+                        body.plan_interval_type = this.getNodeParameter('plan_interval_type', i) as string;
+                        body.plan_intervals = this.getNodeParameter('plan_intervals', i) as number;
+                    }
+
+                    const planMaxCycles = this.getNodeParameter('plan_max_cycles', i, 0) as number;
+                    const planNote = this.getNodeParameter('plan_note', i, '') as string;
+
+                    if (planMaxCycles) body.plan_max_cycles = planMaxCycles;
+                    if (planNote) body.plan_note = planNote;
+
+                    validator.throwIfInvalid(this.getNode(), i);
+
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'POST',
+                        url: `${baseUrl}/plans`,
+                        headers,
+                        body,
+                        json: true,
+                    });
+
+                    responseData = response;
+                } else if (operation === 'createSubscription') {
+                    const authorizationDetails: IDataObject = {
+                        authorization_amount: this.getNodeParameter('subscription_authorization_amount', i, 1) as number,
+                        authorization_amount_refund: this.getNodeParameter('subscription_authorization_amount_refund', i, true) as boolean,
+                    };
+
+                    const paymentMethods = this.getNodeParameter('subscription_payment_methods', i, []) as string[];
+                    if (paymentMethods.length > 0) authorizationDetails.payment_methods = paymentMethods;
+
+                    const body: IDataObject = {
+                        subscription_id: this.getNodeParameter('subscription_id', i) as string,
+                        customer_details: {
+                            customer_name: this.getNodeParameter('subscription_customer_name', i) as string,
+                            customer_email: this.getNodeParameter('subscription_customer_email', i) as string,
+                            customer_phone: this.getNodeParameter('subscription_customer_phone', i) as string,
+                        },
+                        plan_details: {
+                            plan_id: this.getNodeParameter('subscription_plan_id', i) as string,
+                        },
+                        authorization_details: authorizationDetails,
+                    };
+
+                    const returnUrl = this.getNodeParameter('subscription_return_url', i, '') as string;
+                    const firstChargeTime = this.getNodeParameter('subscription_first_charge_time', i, '') as string;
+                    const expiryTime = this.getNodeParameter('subscription_expiry_time', i, '') as string;
+                    const subscriptionNote = this.getNodeParameter('subscription_note', i, '') as string;
+
+                    if (returnUrl) body.subscription_meta = { return_url: returnUrl };
+                    if (firstChargeTime) body.subscription_first_charge_time = firstChargeTime;
+                    if (expiryTime) body.subscription_expiry_time = expiryTime;
+                    if (subscriptionNote) body.subscription_note = subscriptionNote;
+
+                    try {
+                        const tagsParam = this.getNodeParameter('subscription_tags', i, '{}') as string;
+                        const tags = typeof tagsParam === 'string' ? JSON.parse(tagsParam) : tagsParam;
+
+                        // Only add subscription_tags to body if it has content (not empty object)
+                        if (Object.keys(tags).length > 0) {
+                            body.subscription_tags = tags;
+                        }
+                    } catch (error) {
+                        throw new Error(`Invalid JSON format for subscription_tags: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                    }
+
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'POST',
+                        url: `${baseUrl}/subscriptions`,
+                        headers,
+                        body,
+                        json: true,
+                    });
+
+                    responseData = response;
+                } else if (operation === 'getSubscription') {
+                    const subscriptionId = this.getNodeParameter('manage_subscription_id', i) as string;
+
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'GET',
+                        url: `${baseUrl}/subscriptions/${encodeURIComponent(subscriptionId)}`,
+                        headers,
+                        json: true,
+                    });
+
+                    responseData = response;
+                } else if (operation === 'pauseSubscription' || operation === 'resumeSubscription' || operation === 'cancelSubscription') {
+                    const subscriptionId = this.getNodeParameter('manage_subscription_id', i) as string;
+                    const actions: { [key: string]: string } = {
+                        pauseSubscription: 'PAUSE',
+                        resumeSubscription: 'ACTIVATE',
+                        cancelSubscription: 'CANCEL',
+                    };
+
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'POST',
+                        url: `${baseUrl}/subscriptions/${encodeURIComponent(subscriptionId)}/manage`,
+                        headers,
+                        body: {
+                            subscription_id: subscriptionId,
+                            action: actions[operation],
+                        },
+                        json: true,
+                    });
+
+                    responseData = response;
+                } else if (operation === 'chargeSubscription') {
+                    const validator = new ParameterValidator();
+                    // Subscription charges are collected over INR mandates (UPI Autopay, eNACH, cards)
+                    const body: IDataObject = {
+                        subscription_id: this.getNodeParameter('manage_subscription_id', i) as string,
+                        payment_id: this.getNodeParameter('subscription_payment_id', i) as string,
+                        payment_amount: CashfreePayments.normalizeAmount(
+                            validator,
+                            this.getNodeParameter('subscription_payment_amount', i) as number,
+                            'INR',
+                            this.getNodeParameter('amountInMinorUnits', i, false) as boolean,
+                            'Payment Amount',
+                        ),
+                        payment_type: 'CHARGE',
+                    };
+                    validator.throwIfInvalid(this.getNode(), i);
+
+                    const scheduleDate = this.getNodeParameter('subscription_payment_schedule_date', i, '') as string;
+                    const remarks = this.getNodeParameter('subscription_payment_remarks', i, '') as string;
+
+                    if (scheduleDate) body.payment_schedule_date = scheduleDate;
+                    if (remarks) body.payment_remarks = remarks;
+
+                    const headers = CashfreePayments.getPgHeaders(credentials);
+
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'POST',
+                        url: `${baseUrl}/subscriptions/pay`,
+                        headers,
+                        body,
+                        json: true,
+                    });
+
+                    responseData = response;
+                } else if (operation === 'createCashgram') {
+                    const validator = new ParameterValidator();
                     const cashgramData = {
                         cashgramId: this.getNodeParameter('cashgram_id', i) as string,
-                        amount: this.getNodeParameter('cashgram_amount', i) as number,
+                        amount: CashfreePayments.normalizeAmount(
+                            validator,
+                            this.getNodeParameter('cashgram_amount', i) as number,
+                            'INR',
+                            this.getNodeParameter('amountInMinorUnits', i, false) as boolean,
+                            'Amount',
+                        ),
                         name: this.getNodeParameter('cashgram_name', i) as string,
                         email: this.getNodeParameter('cashgram_email', i) as string,
-                        phone: this.getNodeParameter('cashgram_phone', i) as string,
+                        phone: CashfreePayments.normalizePhone(this, this.getNodeParameter('cashgram_phone', i) as string, i),
                         linkExpiry: this.getNodeParameter('cashgram_link_expiry', i) as string,
                         remarks: this.getNodeParameter('cashgram_remarks', i) as string,
                         notifyCustomer: this.getNodeParameter('cashgram_notify_customer', i) as number,
                     };
 
-                    const payoutBaseUrl = CashfreePayments.getPayoutBaseUrl(credentials.environment as string);
+                    validator.id('cashgramId', cashgramData.cashgramId, 3, 50);
+                    validator.length('name', cashgramData.name, 1, 100);
+                    validator.email('email', cashgramData.email);
+                    validator.phone('phone', cashgramData.phone, false);
+                    validator.throwIfInvalid(this.getNode(), i);
 
-                    const response = await fetch(`${payoutBaseUrl}/payout/v1/createCashgram`, {
-                        method: 'POST',
-                        headers: {
-                            'Content-Type': 'application/json',
-                            'Authorization': `Bearer ${authToken}`,
-                        },
-                        body: JSON.stringify({
-                            cashgramId: cashgramData.cashgramId,
-                            amount: cashgramData.amount,
-                            name: cashgramData.name,
-                            email: cashgramData.email,
-                            phone: cashgramData.phone,
-                            linkExpiry: cashgramData.linkExpiry,
-                            remarks: cashgramData.remarks,
-                            notifyCustomer: cashgramData.notifyCustomer
-                        }),
+                    const response = await CashfreePayments.payoutRequest(this, credentials, retryOptions, '/payout/v1/createCashgram', {
+                        cashgramId: cashgramData.cashgramId,
+                        amount: cashgramData.amount,
+                        name: cashgramData.name,
+                        email: cashgramData.email,
+                        phone: cashgramData.phone,
+                        linkExpiry: cashgramData.linkExpiry,
+                        remarks: cashgramData.remarks,
+                        notifyCustomer: cashgramData.notifyCustomer
                     });
 
-                    if (!response.ok) {
-                        const errorData = await response.text();
-                        throw new NodeApiError(this.getNode(), {
-                            message: `Cashgram creation failed: ${response.status} - ${errorData}`,
-                        });
+                    responseData = CashfreePayments.parsePayoutResponse(response, 'Cashgram creation failed');
+                } else if (operation === 'deactivateCashgram') {
+                    const cashgramId = this.getNodeParameter('deactivate_cashgram_id', i, '', { extractValue: true }) as string;
+
+                    // Deactivating twice leaves the Cashgram deactivated, so this call may be retried
+                    const response = await CashfreePayments.payoutRequest(this, credentials, retryOptions, '/payout/v1/deactivateCashgram', {
+                        cashgramId: cashgramId,
+                    }, 'POST', true);
+
+                    responseData = CashfreePayments.parsePayoutResponse(response, 'Cashgram deactivation failed');
+                } else if (operation === 'addBeneficiary') {
+                    const bankAccount = this.getNodeParameter('bene_bank_account', i, '') as string;
+                    const ifsc = this.getNodeParameter('bene_ifsc', i, '') as string;
+                    const vpa = this.getNodeParameter('bene_vpa', i, '') as string;
+
+                    if (!vpa && (!bankAccount || !ifsc)) {
+                        throw new Error('Either a UPI ID or both Bank Account Number and Bank IFSC are required to add a beneficiary');
                     }
 
-                    responseData = await response.json();
-                } else if (operation === 'deactivateCashgram') {
-                    // Get payout authorization token
-                    const authToken = await CashfreePayments.getPayoutAuthToken(
-                        credentials.payoutClientId as string,
-                        credentials.payoutClientSecret as string,
-                        credentials.payoutPublicKey as string,
-                        credentials.environment as string
+                    const body: IDataObject = {
+                        beneId: this.getNodeParameter('bene_id', i) as string,
+                        name: this.getNodeParameter('bene_name', i) as string,
+                        email: this.getNodeParameter('bene_email', i) as string,
+                        phone: this.getNodeParameter('bene_phone', i) as string,
+                        address1: this.getNodeParameter('bene_address1', i) as string,
+                    };
+
+                    const city = this.getNodeParameter('bene_city', i, '') as string;
+                    const state = this.getNodeParameter('bene_state', i, '') as string;
+                    const pincode = this.getNodeParameter('bene_pincode', i, '') as string;
+
+                    if (bankAccount) body.bankAccount = bankAccount;
+                    if (ifsc) body.ifsc = ifsc;
+                    if (vpa) body.vpa = vpa;
+                    if (city) body.city = city;
+                    if (state) body.state = state;
+                    if (pincode) body.pincode = pincode;
+
+                    const response = await CashfreePayments.payoutRequest(this, credentials, retryOptions, '/payout/v1/addBeneficiary', body);
+
+                    responseData = CashfreePayments.parsePayoutResponse(response, 'Beneficiary creation failed');
+                } else if (operation === 'getBeneficiary') {
+                    const beneId = this.getNodeParameter('lookup_bene_id', i) as string;
+
+                    const response = await CashfreePayments.payoutRequest(
+                        this,
+                        credentials,
+                        retryOptions,
+                        `/payout/v1/getBeneficiary/${encodeURIComponent(beneId)}`,
+                        undefined,
+                        'GET'
                     );
 
-                    const cashgramId = this.getNodeParameter('deactivate_cashgram_id', i) as string;
+                    responseData = CashfreePayments.parsePayoutResponse(response, 'Beneficiary lookup failed');
+                } else if (operation === 'getBeneficiaryId') {
+                    const query = new URLSearchParams({
+                        bankAccount: this.getNodeParameter('lookup_bank_account', i) as string,
+                        ifsc: this.getNodeParameter('lookup_ifsc', i) as string,
+                    });
+
+                    const response = await CashfreePayments.payoutRequest(
+                        this,
+                        credentials,
+                        retryOptions,
+                        `/payout/v1/getBeneId?${query.toString()}`,
+                        undefined,
+                        'GET'
+                    );
+
+                    responseData = CashfreePayments.parsePayoutResponse(response, 'Beneficiary ID lookup failed');
+                } else if (operation === 'removeBeneficiary') {
+                    const beneId = this.getNodeParameter('lookup_bene_id', i) as string;
+
+                    // Removing twice leaves the beneficiary removed, so this call may be retried
+                    const response = await CashfreePayments.payoutRequest(this, credentials, retryOptions, '/payout/v1/removeBeneficiary', {
+                        beneId,
+                    }, 'POST', true);
+
+                    responseData = CashfreePayments.parsePayoutResponse(response, 'Beneficiary removal failed');
+                } else if (operation === 'createTransfer') {
+                    const beneficiaryType = this.getNodeParameter('transfer_beneficiary_type', i, 'beneficiaryId') as string;
+
+                    const beneficiaryDetails: IDataObject = {};
+                    if (beneficiaryType === 'beneficiaryId') {
+                        beneficiaryDetails.beneficiary_id = this.getNodeParameter('transfer_beneficiary_id', i) as string;
+                    } else {
+                        beneficiaryDetails.beneficiary_name = this.getNodeParameter('transfer_beneficiary_name', i) as string;
+                        beneficiaryDetails.beneficiary_instrument_details = beneficiaryType === 'bankAccount'
+                            ? {
+                                bank_account_number: this.getNodeParameter('transfer_bank_account_number', i) as string,
+                                bank_ifsc: this.getNodeParameter('transfer_bank_ifsc', i) as string,
+                            }
+                            : {
+                                vpa: this.getNodeParameter('transfer_vpa', i) as string,
+                            };
+                    }
+
+                    const validator = new ParameterValidator();
+                    const body: IDataObject = {
+                        transfer_id: this.getNodeParameter('transfer_id', i) as string,
+                        transfer_amount: CashfreePayments.normalizeAmount(
+                            validator,
+                            this.getNodeParameter('transfer_amount', i) as number,
+                            'INR',
+                            this.getNodeParameter('amountInMinorUnits', i, false) as boolean,
+                            'Transfer Amount',
+                        ),
+                        transfer_currency: 'INR',
+                        transfer_mode: this.getNodeParameter('transfer_mode', i, 'banktransfer') as string,
+                        beneficiary_details: beneficiaryDetails,
+                    };
+
+                    const transferRemarks = this.getNodeParameter('transfer_remarks', i, '') as string;
+                    if (transferRemarks) body.transfer_remarks = transferRemarks;
+
+                    validator.throwIfInvalid(this.getNode(), i);
+
+                    // Transfers carry no idempotency key, so they are never retried automatically
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'POST',
+                        url: `${CashfreePayments.getPayoutV2BaseUrl(credentials)}/transfers`,
+                        headers: CashfreePayments.getPayoutV2Headers(credentials),
+                        body,
+                        json: true,
+                    });
+
+                    responseData = response;
+                } else if (operation === 'createBatchTransfer') {
+                    let transfers: IDataObject[];
+                    try {
+                        const transfersParam = this.getNodeParameter('batch_transfers', i, '[]') as string;
+                        transfers = typeof transfersParam === 'string' ? JSON.parse(transfersParam) : transfersParam;
+                    } catch (error) {
+                        throw new Error(`Invalid JSON format for batch_transfers: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                    }
 
-                    const payoutBaseUrl = CashfreePayments.getPayoutBaseUrl(credentials.environment as string);
+                    if (!Array.isArray(transfers) || transfers.length === 0) {
+                        throw new Error('Transfers must be a non-empty JSON array');
+                    }
 
-                    const response = await fetch(`${payoutBaseUrl}/payout/v1/deactivateCashgram`, {
+                    // Batch transfers carry no idempotency key, so they are never retried automatically
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
                         method: 'POST',
-                        headers: {
-                            'Content-Type': 'application/json',
-                            'Authorization': `Bearer ${authToken}`,
+                        url: `${CashfreePayments.getPayoutV2BaseUrl(credentials)}/transfers/batch`,
+                        headers: CashfreePayments.getPayoutV2Headers(credentials),
+                        body: {
+                            batch_transfer_id: this.getNodeParameter('batch_transfer_id', i) as string,
+                            transfers,
                         },
-                        body: JSON.stringify({
-                            cashgramId: cashgramId,
-                        }),
+                        json: true,
                     });
 
-                    if (!response.ok) {
-                        const errorData = await response.text();
-                        throw new NodeApiError(this.getNode(), {
-                            message: `Cashgram deactivation failed: ${response.status} - ${errorData}`,
-                        });
+                    responseData = response;
+                } else if (operation === 'getTransferStatus') {
+                    const transferId = this.getNodeParameter('status_transfer_id', i, '') as string;
+                    const cfTransferId = this.getNodeParameter('status_cf_transfer_id', i, '') as string;
+
+                    if (!transferId && !cfTransferId) {
+                        throw new Error('Either Transfer ID or Cashfree Transfer ID is required to get the transfer status');
                     }
 
-                    responseData = await response.json();
+                    const qs: IDataObject = {};
+                    if (transferId) qs.transfer_id = transferId;
+                    if (cfTransferId) qs.cf_transfer_id = cfTransferId;
+
+                    const response = await CashfreePayments.httpRequestWithRetry(this, retryOptions, {
+                        method: 'GET',
+                        url: `${CashfreePayments.getPayoutV2BaseUrl(credentials)}/transfers`,
+                        headers: CashfreePayments.getPayoutV2Headers(credentials),
+                        qs,
+                        json: true,
+                    });
+
+                    responseData = response;
                 } else {
                     throw new NodeApiError(this.getNode(), {
                         message: `Unknown operation: ${operation}`,
                     });
                 }
 
+                // Attach a QR code of the payment link as binary data when requested
+                let binary: IBinaryKeyData | undefined;
+                if ((operation === 'createPaymentLink' || operation === 'fetchPaymentLinkDetails') && this.getNodeParameter('qr_generate', i, false)) {
+                    const binaryPropertyName = this.getNodeParameter('qr_binary_property', i, 'qrCode') as string;
+                    binary = { [binaryPropertyName]: await CashfreePayments.generateLinkQrCode(this, responseData, i) };
+                }
+
                 const executionData = this.helpers.constructExecutionMetaData(
-                    this.helpers.returnJsonArray(responseData),
+                    binary ? [{ json: responseData, binary }] : this.helpers.returnJsonArray(responseData),
                     { itemData: { item: i } },
                 );
 
                 returnData.push(...executionData);
             } catch (error) {
+                // A wait timeout is not an API failure: the entity exists and may still reach a final status
+                if (error instanceof CashfreeWaitTimeoutError) {
+                    if (this.continueOnFail()) {
+                        const executionData = this.helpers.constructExecutionMetaData(
+                            this.helpers.returnJsonArray({
+                                error: error.message,
+                                timedOut: true,
+                                lastStatus: error.lastStatus,
+                                lastResponse: error.lastResponse,
+                            }),
+                            { itemData: { item: i } },
+                        );
+                        returnData.push(...executionData);
+                        continue;
+                    }
+                    throw new NodeOperationError(this.getNode(), error.message, {
+                        description: `The ${error.resource} was created, but did not reach a terminal status before the wait timeout. Increase the timeout or check it again later.`,
+                        itemIndex: i,
+                    });
+                }
+
+                const errorDetails = CashfreePayments.getCashfreeErrorDetails(error);
+                const nodeError = errorDetails ? CashfreePayments.toNodeApiError(this, errorDetails, i) : error;
+
                 if (this.continueOnFail()) {
-                    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+                    const errorMessage = nodeError instanceof Error ? nodeError.message : 'Unknown error occurred';
                     const executionData = this.helpers.constructExecutionMetaData(
-                        this.helpers.returnJsonArray({ error: errorMessage }),
+                        this.helpers.returnJsonArray({ ...errorDetails, error: errorMessage }),
                         { itemData: { item: i } },
                     );
                     returnData.push(...executionData);
                     continue;
                 }
-                throw error;
+                throw nodeError;
             }
         }
 
@@ -0,0 +1,478 @@
+import * as zlib from 'zlib';
+
+// QR code encoder (ISO/IEC 18004, byte mode) and PNG/SVG renderers, so payment link QR codes
+// are generated locally without a runtime dependency or an external image service.
+
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+// Quiet zone around the symbol, in modules, as required by the specification
+const QUIET_ZONE = 4;
+
+const ERROR_CORRECTION_ORDINAL: { [level in QrErrorCorrectionLevel]: number } = { L: 0, M: 1, Q: 2, H: 3 };
+
+// Format information bits of each level (note the specification's non-sequential order)
+const ERROR_CORRECTION_FORMAT_BITS: { [level in QrErrorCorrectionLevel]: number } = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Error correction codewords per block, indexed by level ordinal and version
+const ECC_CODEWORDS_PER_BLOCK = [
+	[-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+	[-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+	[-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+	[-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+// Number of error correction blocks, indexed by level ordinal and version
+const NUM_ERROR_CORRECTION_BLOCKS = [
+	[-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+	[-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+	[-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+	[-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+// Penalty weights of the mask evaluation rules
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+function getBit(value: number, index: number): boolean {
+	return ((value >>> index) & 1) !== 0;
+}
+
+// Number of modules available for data and error correction codewords in a version
+function getNumRawDataModules(version: number): number {
+	let result = (16 * version + 128) * version + 64;
+	if (version >= 2) {
+		const numAlign = Math.floor(version / 7) + 2;
+		result -= (25 * numAlign - 10) * numAlign - 55;
+		if (version >= 7) result -= 36;
+	}
+	return result;
+}
+
+function getNumDataCodewords(version: number, level: number): number {
+	return Math.floor(getNumRawDataModules(version) / 8)
+		- ECC_CODEWORDS_PER_BLOCK[level][version] * NUM_ERROR_CORRECTION_BLOCKS[level][version];
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function reedSolomonMultiply(x: number, y: number): number {
+	let z = 0;
+	for (let i = 7; i >= 0; i--) {
+		z = (z << 1) ^ ((z >>> 7) * 0x11d);
+		z ^= ((y >>> i) & 1) * x;
+	}
+	return z;
+}
+
+function reedSolomonComputeDivisor(degree: number): number[] {
+	const result: number[] = new Array(degree - 1).fill(0);
+	result.push(1);
+
+	let root = 1;
+	for (let i = 0; i < degree; i++) {
+		for (let j = 0; j < result.length; j++) {
+			result[j] = reedSolomonMultiply(result[j], root);
+			if (j + 1 < result.length) result[j] ^= result[j + 1];
+		}
+		root = reedSolomonMultiply(root, 0x02);
+	}
+	return result;
+}
+
+function reedSolomonComputeRemainder(data: number[], divisor: number[]): number[] {
+	const result: number[] = divisor.map(() => 0);
+	for (const byte of data) {
+		const factor = byte ^ (result.shift() as number);
+		result.push(0);
+		divisor.forEach((coefficient, i) => {
+			result[i] ^= reedSolomonMultiply(coefficient, factor);
+		});
+	}
+	return result;
+}
+
+// Split data codewords into blocks, append error correction to each and interleave them
+function addEccAndInterleave(data: number[], version: number, level: number): number[] {
+	const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[level][version];
+	const blockEccLen = ECC_CODEWORDS_PER_BLOCK[level][version];
+	const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+	const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+	const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+	const divisor = reedSolomonComputeDivisor(blockEccLen);
+	const blocks: number[][] = [];
+	for (let i = 0, k = 0; i < numBlocks; i++) {
+		const blockData = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+		k += blockData.length;
+		const ecc = reedSolomonComputeRemainder(blockData, divisor);
+		if (i < numShortBlocks) blockData.push(0);
+		blocks.push(blockData.concat(ecc));
+	}
+
+	const result: number[] = [];
+	for (let i = 0; i < blocks[0].length; i++) {
+		blocks.forEach((block, j) => {
+			// Skip the padding cell of the short blocks
+			if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+				result.push(block[i]);
+			}
+		});
+	}
+	return result;
+}
+
+class QrMatrix {
+	readonly size: number;
+	readonly modules: boolean[][];
+	private readonly isFunction: boolean[][];
+
+	constructor(private readonly version: number, private readonly formatBits: number) {
+		this.size = version * 4 + 17;
+		this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+		this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+	}
+
+	drawFunctionPatterns(): void {
+		for (let i = 0; i < this.size; i++) {
+			this.setFunctionModule(6, i, i % 2 === 0);
+			this.setFunctionModule(i, 6, i % 2 === 0);
+		}
+
+		this.drawFinderPattern(3, 3);
+		this.drawFinderPattern(this.size - 4, 3);
+		this.drawFinderPattern(3, this.size - 4);
+
+		const positions = this.getAlignmentPatternPositions();
+		const numAlign = positions.length;
+		for (let i = 0; i < numAlign; i++) {
+			for (let j = 0; j < numAlign; j++) {
+				// Alignment patterns never overlap the three finder patterns
+				if (!((i === 0 && j === 0) || (i === 0 && j === numAlign - 1) || (i === numAlign - 1 && j === 0))) {
+					this.drawAlignmentPattern(positions[i], positions[j]);
+				}
+			}
+		}
+
+		// Reserve the format area now; the real bits are drawn once the mask is chosen
+		this.drawFormatBits(0);
+		this.drawVersion();
+	}
+
+	drawCodewords(data: number[]): void {
+		let i = 0;
+		for (let right = this.size - 1; right >= 1; right -= 2) {
+			if (right === 6) right = 5;
+			for (let vertical = 0; vertical < this.size; vertical++) {
+				for (let j = 0; j < 2; j++) {
+					const x = right - j;
+					const upward = ((right + 1) & 2) === 0;
+					const y = upward ? this.size - 1 - vertical : vertical;
+					if (!this.isFunction[y][x] && i < data.length * 8) {
+						this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7));
+						i++;
+					}
+				}
+			}
+		}
+	}
+
+	// XOR the data area with a mask pattern; applying the same mask twice undoes it
+	applyMask(mask: number): void {
+		for (let y = 0; y < this.size; y++) {
+			for (let x = 0; x < this.size; x++) {
+				let invert: boolean;
+				switch (mask) {
+					case 0: invert = (x + y) % 2 === 0; break;
+					case 1: invert = y % 2 === 0; break;
+					case 2: invert = x % 3 === 0; break;
+					case 3: invert = (x + y) % 3 === 0; break;
+					case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+					case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+					case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+					default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+				}
+				if (!this.isFunction[y][x] && invert) {
+					this.modules[y][x] = !this.modules[y][x];
+				}
+			}
+		}
+	}
+
+	drawFormatBits(mask: number): void {
+		const data = (this.formatBits << 3) | mask;
+		let remainder = data;
+		for (let i = 0; i < 10; i++) {
+			remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+		}
+		const bits = ((data << 10) | remainder) ^ 0x5412;
+
+		// First copy, around the top left finder pattern
+		for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, getBit(bits, i));
+		this.setFunctionModule(8, 7, getBit(bits, 6));
+		this.setFunctionModule(8, 8, getBit(bits, 7));
+		this.setFunctionModule(7, 8, getBit(bits, 8));
+		for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, getBit(bits, i));
+
+		// Second copy, split between the top right and bottom left finder patterns
+		for (let i = 0; i < 8; i++) this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i));
+		for (let i = 8; i < 15; i++) this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i));
+		this.setFunctionModule(8, this.size - 8, true);
+	}
+
+	getPenaltyScore(): number {
+		let result = 0;
+
+		for (let y = 0; y < this.size; y++) {
+			result += QrMatrix.getLinePenalty(this.modules[y]);
+		}
+		for (let x = 0; x < this.size; x++) {
+			result += QrMatrix.getLinePenalty(this.modules.map((row) => row[x]));
+		}
+
+		// 2x2 blocks of the same color
+		for (let y = 0; y < this.size - 1; y++) {
+			for (let x = 0; x < this.size - 1; x++) {
+				const color = this.modules[y][x];
+				if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+					result += PENALTY_N2;
+				}
+			}
+		}
+
+		// Balance of dark and light modules
+		let dark = 0;
+		for (const row of this.modules) {
+			for (const module of row) {
+				if (module) dark++;
+			}
+		}
+		const total = this.size * this.size;
+		const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+		result += k * PENALTY_N4;
+
+		return result;
+	}
+
+	// Penalty for runs of five or more same-colored modules and finder-like patterns in one row or column
+	private static getLinePenalty(line: boolean[]): number {
+		let result = 0;
+
+		let runLength = 1;
+		for (let i = 1; i <= line.length; i++) {
+			if (i < line.length && line[i] === line[i - 1]) {
+				runLength++;
+				continue;
+			}
+			if (runLength >= 5) result += PENALTY_N1 + (runLength - 5);
+			runLength = 1;
+		}
+
+		// 1:1:3:1:1 dark pattern with four light modules on either side (the quiet zone counts as light)
+		const isDark = (i: number) => i >= 0 && i < line.length && line[i];
+		const pattern = [true, false, true, true, true, false, true];
+		for (let i = 0; i + pattern.length <= line.length; i++) {
+			if (!pattern.every((dark, j) => isDark(i + j) === dark)) continue;
+			const lightBefore = [1, 2, 3, 4].every((j) => !isDark(i - j));
+			const lightAfter = [0, 1, 2, 3].every((j) => !isDark(i + pattern.length + j));
+			if (lightBefore || lightAfter) result += PENALTY_N3;
+		}
+
+		return result;
+	}
+
+	private setFunctionModule(x: number, y: number, dark: boolean): void {
+		this.modules[y][x] = dark;
+		this.isFunction[y][x] = true;
+	}
+
+	private drawFinderPattern(x: number, y: number): void {
+		for (let dy = -4; dy <= 4; dy++) {
+			for (let dx = -4; dx <= 4; dx++) {
+				const distance = Math.max(Math.abs(dx), Math.abs(dy));
+				const xx = x + dx;
+				const yy = y + dy;
+				if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+					this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4);
+				}
+			}
+		}
+	}
+
+	private drawAlignmentPattern(x: number, y: number): void {
+		for (let dy = -2; dy <= 2; dy++) {
+			for (let dx = -2; dx <= 2; dx++) {
+				this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+			}
+		}
+	}
+
+	private drawVersion(): void {
+		if (this.version < 7) return;
+
+		let remainder = this.version;
+		for (let i = 0; i < 12; i++) {
+			remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+		}
+		const bits = (this.version << 12) | remainder;
+
+		for (let i = 0; i < 18; i++) {
+			const dark = getBit(bits, i);
+			const a = this.size - 11 + (i % 3);
+			const b = Math.floor(i / 3);
+			this.setFunctionModule(a, b, dark);
+			this.setFunctionModule(b, a, dark);
+		}
+	}
+
+	private getAlignmentPatternPositions(): number[] {
+		if (this.version === 1) return [];
+
+		const numAlign = Math.floor(this.version / 7) + 2;
+		const step = Math.floor((this.version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+		const result = [6];
+		for (let position = this.size - 7; result.length < numAlign; position -= step) {
+			result.splice(1, 0, position);
+		}
+		return result;
+	}
+}
+
+// Encode text as a QR code in byte mode, using the smallest version that fits.
+// Returns the module matrix, where true is a dark module.
+export function encodeQrCode(text: string, errorCorrectionLevel: QrErrorCorrectionLevel = 'M'): boolean[][] {
+	const level = ERROR_CORRECTION_ORDINAL[errorCorrectionLevel];
+	const bytes = Buffer.from(text, 'utf8');
+
+	let version = 1;
+	for (; version <= 40; version++) {
+		const countBits = version < 10 ? 8 : 16;
+		if (bytes.length < 1 << countBits && 4 + countBits + bytes.length * 8 <= getNumDataCodewords(version, level) * 8) {
+			break;
+		}
+	}
+	if (version > 40) {
+		throw new Error(`Text is too long to encode as a QR code at error correction level ${errorCorrectionLevel} (${bytes.length} bytes)`);
+	}
+
+	const bits: number[] = [];
+	const appendBits = (value: number, length: number) => {
+		for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+	};
+	appendBits(0x4, 4);
+	appendBits(bytes.length, version < 10 ? 8 : 16);
+	for (const byte of bytes) appendBits(byte, 8);
+
+	// Terminator, byte alignment, then alternating pad bytes up to the data capacity
+	const capacityBits = getNumDataCodewords(version, level) * 8;
+	appendBits(0, Math.min(4, capacityBits - bits.length));
+	appendBits(0, (8 - (bits.length % 8)) % 8);
+	for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+		appendBits(pad, 8);
+	}
+
+	const dataCodewords: number[] = [];
+	for (let i = 0; i < bits.length; i += 8) {
+		dataCodewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+	}
+
+	const matrix = new QrMatrix(version, ERROR_CORRECTION_FORMAT_BITS[errorCorrectionLevel]);
+	matrix.drawFunctionPatterns();
+	matrix.drawCodewords(addEccAndInterleave(dataCodewords, version, level));
+
+	let bestMask = 0;
+	let minPenalty = Infinity;
+	for (let mask = 0; mask < 8; mask++) {
+		matrix.applyMask(mask);
+		matrix.drawFormatBits(mask);
+		const penalty = matrix.getPenaltyScore();
+		if (penalty < minPenalty) {
+			bestMask = mask;
+			minPenalty = penalty;
+		}
+		matrix.applyMask(mask);
+	}
+
+	matrix.applyMask(bestMask);
+	matrix.drawFormatBits(bestMask);
+	return matrix.modules;
+}
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	}
+	return c >>> 0;
+});
+
+function crc32(buffer: Buffer): number {
+	let crc = 0xffffffff;
+	for (const byte of buffer) {
+		crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(data.length);
+	const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(typeAndData));
+	return Buffer.concat([length, typeAndData, crc]);
+}
+
+// Pixels per module so the symbol and its quiet zone fit into the requested size
+function getModuleScale(modules: boolean[][], size: number): number {
+	return Math.max(1, Math.floor(size / (modules.length + QUIET_ZONE * 2)));
+}
+
+// Render a QR code as an 8-bit grayscale PNG of at most size x size pixels
+export function renderQrCodePng(modules: boolean[][], size: number): Buffer {
+	const scale = getModuleScale(modules, size);
+	const dimension = (modules.length + QUIET_ZONE * 2) * scale;
+
+	const rowLength = dimension + 1;
+	const pixels = Buffer.alloc(rowLength * dimension, 0xff);
+	for (let y = 0; y < dimension; y++) {
+		// Filter type 0 (none) at the start of each scanline
+		pixels[y * rowLength] = 0;
+		const moduleY = Math.floor(y / scale) - QUIET_ZONE;
+		for (let x = 0; x < dimension; x++) {
+			const moduleX = Math.floor(x / scale) - QUIET_ZONE;
+			if (modules[moduleY]?.[moduleX]) {
+				pixels[y * rowLength + 1 + x] = 0;
+			}
+		}
+	}
+
+	const header = Buffer.alloc(13);
+	header.writeUInt32BE(dimension, 0);
+	header.writeUInt32BE(dimension, 4);
+	header[8] = 8; // bit depth
+	header[9] = 0; // color type: grayscale
+
+	return Buffer.concat([
+		Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+		pngChunk('IHDR', header),
+		pngChunk('IDAT', zlib.deflateSync(pixels)),
+		pngChunk('IEND', Buffer.alloc(0)),
+	]);
+}
+
+// Render a QR code as an SVG document of size x size pixels
+export function renderQrCodeSvg(modules: boolean[][], size: number): string {
+	const dimension = modules.length + QUIET_ZONE * 2;
+	const path: string[] = [];
+	modules.forEach((row, y) => {
+		row.forEach((dark, x) => {
+			if (dark) path.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+		});
+	});
+
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">`
+		+ `<rect width="${dimension}" height="${dimension}" fill="#ffffff"/>`
+		+ `<path d="${path.join('')}" fill="#000000"/>`
+		+ '</svg>';
+}
@@ -0,0 +1,249 @@
+import type {
+	ICredentialDataDecryptedObject,
+	IDataObject,
+	IHttpRequestOptions,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import type { RetryOptions } from '../CashfreePayments/CashfreePayments.node';
+import { CashfreePayments } from '../CashfreePayments/CashfreePayments.node';
+
+export class CashfreePaymentsPollingTrigger implements INodeType {
+	// Retries for the read-only requests of a poll, matching the defaults of the Cashfree Payments node
+	private static readonly RETRY_OPTIONS: RetryOptions = { maxRetries: 3, baseDelay: 1000 };
+
+	// Helper method to split a comma-separated ID list
+	private static parseIds(value: string): string[] {
+		return value
+			.split(',')
+			.map((id) => id.trim())
+			.filter((id) => id !== '');
+	}
+
+	// Helper method to GET a Payment Gateway endpoint with the shared credential handling.
+	// List endpoints are read page by page through the x-next-cursor header, so no record is missed.
+	private static async pgGet(
+		context: IPollFunctions,
+		credentials: ICredentialDataDecryptedObject,
+		path: string,
+		qs?: IDataObject,
+		allPages = false,
+	): Promise<any> {
+		const options: IHttpRequestOptions = {
+			method: 'GET',
+			url: `${CashfreePayments.getPgBaseUrl(credentials)}${path}`,
+			headers: CashfreePayments.getPgHeaders(credentials),
+			qs,
+			json: true,
+		};
+
+		try {
+			return allPages
+				? await CashfreePayments.pgRequestAllItems(context, CashfreePaymentsPollingTrigger.RETRY_OPTIONS, options, true, 0)
+				: await context.helpers.httpRequest(options);
+		} catch (error) {
+			const details = CashfreePayments.getCashfreeErrorDetails(error);
+			throw details ? CashfreePayments.toNodeApiError(context, details) : error;
+		}
+	}
+
+	description: INodeTypeDescription = {
+		displayName: 'Cashfree Payments Polling Trigger',
+		name: 'cashfreePaymentsPollingTrigger',
+		icon: 'file:icon1.svg',
+		group: ['trigger'],
+		version: 1,
+		description: 'Polls Cashfree for new paid orders, successful refunds and payment link status changes',
+		subtitle: '={{$parameter["event"]}}',
+		defaults: {
+			name: 'Cashfree Payments Polling Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'cashfreeApi',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Event',
+				name: 'event',
+				type: 'options',
+				options: [
+					{
+						name: 'New Paid Order for Payment Link',
+						value: 'paymentLinkPaidOrder',
+						description: 'Emit each order that is newly PAID for the watched payment links',
+					},
+					{
+						name: 'Refund Succeeded',
+						value: 'refundSucceeded',
+						description: 'Emit each refund of the watched orders that moves to SUCCESS',
+					},
+					{
+						name: 'Payment Link Status Changed',
+						value: 'paymentLinkStatusChanged',
+						description: 'Emit a payment link when its link_status changes, e.g. to EXPIRED',
+					},
+				],
+				default: 'paymentLinkPaidOrder',
+				required: true,
+			},
+			{
+				displayName: 'Link IDs',
+				name: 'linkIds',
+				type: 'string',
+				displayOptions: {
+					show: {
+						event: ['paymentLinkPaidOrder', 'paymentLinkStatusChanged'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: 'link_001,link_002',
+				description: 'Comma-separated IDs of the payment links to watch',
+			},
+			{
+				displayName: 'Order IDs',
+				name: 'orderIds',
+				type: 'string',
+				displayOptions: {
+					show: {
+						event: ['refundSucceeded'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: 'order_001,order_002',
+				description: 'Comma-separated IDs of the orders whose refunds to watch',
+			},
+			{
+				displayName: 'Link Statuses',
+				name: 'linkStatuses',
+				type: 'multiOptions',
+				options: [
+					{ name: 'Active', value: 'ACTIVE' },
+					{ name: 'Cancelled', value: 'CANCELLED' },
+					{ name: 'Expired', value: 'EXPIRED' },
+					{ name: 'Paid', value: 'PAID' },
+					{ name: 'Partially Paid', value: 'PARTIALLY_PAID' },
+				],
+				displayOptions: {
+					show: {
+						event: ['paymentLinkStatusChanged'],
+					},
+				},
+				default: [],
+				description: 'Only emit changes to these statuses. Leave empty to emit every change.',
+			},
+		],
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const event = this.getNodeParameter('event') as string;
+		const credentials = await this.getCredentials('cashfreeApi');
+		const staticData = this.getWorkflowStaticData('node');
+
+		// Manual runs show the current matching records without moving the stored cursor
+		const isManual = this.getMode() === 'manual';
+		const returnData: IDataObject[] = [];
+
+		if (event === 'paymentLinkPaidOrder') {
+			const previousOrders = (staticData.paidOrders ?? {}) as { [linkId: string]: string[] };
+			const seenOrders: { [linkId: string]: string[] } = {};
+			const linkIds = CashfreePaymentsPollingTrigger.parseIds(this.getNodeParameter('linkIds') as string);
+
+			for (const linkId of linkIds) {
+				const orders = (await CashfreePaymentsPollingTrigger.pgGet(
+					this,
+					credentials,
+					`/links/${encodeURIComponent(linkId)}/orders`,
+					{ status: 'PAID' },
+					true,
+				)) as IDataObject[];
+
+				// Every poll reads all PAID orders, so the latest response replaces the seen set instead of growing it
+				const seen = previousOrders[linkId] ? new Set(previousOrders[linkId]) : undefined;
+				const newOrders = (orders ?? []).filter((order) => !seen?.has(String(order.order_id)));
+
+				// The first poll for a link only records what is already paid, so activation does not replay history
+				if (isManual || seen) {
+					returnData.push(...newOrders.map((order) => ({ ...order, link_id: linkId })));
+				}
+
+				seenOrders[linkId] = (orders ?? []).map((order) => String(order.order_id));
+			}
+
+			if (!isManual) staticData.paidOrders = seenOrders;
+		} else if (event === 'refundSucceeded') {
+			const previousOrders = (staticData.orderRefunds ?? {}) as { [orderId: string]: { [refundId: string]: string } };
+			const orderRefunds: { [orderId: string]: { [refundId: string]: string } } = {};
+			const orderIds = CashfreePaymentsPollingTrigger.parseIds(this.getNodeParameter('orderIds') as string);
+
+			for (const orderId of orderIds) {
+				const refunds = (await CashfreePaymentsPollingTrigger.pgGet(
+					this,
+					credentials,
+					`/orders/${encodeURIComponent(orderId)}/refunds`,
+					undefined,
+					true,
+				)) as IDataObject[];
+
+				// The first poll for an order only records its refunds; afterwards every refund not yet seen in
+				// SUCCESS is emitted, including refunds created and completed between two polls
+				const known = previousOrders[orderId];
+				const statuses: { [refundId: string]: string } = {};
+
+				for (const refund of refunds ?? []) {
+					const refundId = String(refund.refund_id);
+					const status = String(refund.refund_status);
+
+					if (status === 'SUCCESS' && known?.[refundId] !== 'SUCCESS' && (isManual || known !== undefined)) {
+						returnData.push(refund);
+					}
+
+					statuses[refundId] = status;
+				}
+
+				orderRefunds[orderId] = statuses;
+			}
+
+			if (!isManual) staticData.orderRefunds = orderRefunds;
+		} else if (event === 'paymentLinkStatusChanged') {
+			const linkStatuses = { ...(staticData.linkStatuses as IDataObject) } as { [linkId: string]: string };
+			const linkIds = CashfreePaymentsPollingTrigger.parseIds(this.getNodeParameter('linkIds') as string);
+			const statusFilter = this.getNodeParameter('linkStatuses', []) as string[];
+
+			for (const linkId of linkIds) {
+				const link = (await CashfreePaymentsPollingTrigger.pgGet(
+					this,
+					credentials,
+					`/links/${encodeURIComponent(linkId)}`,
+				)) as IDataObject;
+
+				const previousStatus = linkStatuses[linkId];
+				const status = String(link.link_status);
+				const changed = isManual || (previousStatus !== undefined && previousStatus !== status);
+
+				if (changed && (statusFilter.length === 0 || statusFilter.includes(status))) {
+					returnData.push({ ...link, previous_link_status: previousStatus ?? null });
+				}
+
+				linkStatuses[linkId] = status;
+			}
+
+			if (!isManual) staticData.linkStatuses = linkStatuses;
+		}
+
+		if (returnData.length === 0) {
+			return null;
+		}
+
+		return [this.helpers.returnJsonArray(returnData)];
+	}
+}
@@ -0,0 +1,229 @@
+import type {
+	IDataObject,
+	INodeType,
+	INodeTypeDescription,
+	IWebhookFunctions,
+	IWebhookResponseData,
+} from 'n8n-workflow';
+import * as crypto from 'crypto';
+
+export class CashfreePaymentsTrigger implements INodeType {
+	// Helper method to compute the expected webhook signature (base64 HMAC-SHA256 of timestamp + raw body)
+	private static computeWebhookSignature(timestamp: string, rawBody: string, clientSecret: string): string {
+		return crypto
+			.createHmac('sha256', clientSecret)
+			.update(timestamp + rawBody)
+			.digest('base64');
+	}
+
+	// Helper method to compare signatures in constant time
+	private static isSignatureValid(expected: string, received: string): boolean {
+		const expectedBuffer = Buffer.from(expected);
+		const receivedBuffer = Buffer.from(received);
+		if (expectedBuffer.length !== receivedBuffer.length) {
+			return false;
+		}
+		return crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+	}
+
+	// Helper method to convert the webhook timestamp to epoch milliseconds (Cashfree sends milliseconds, older payloads seconds)
+	private static getTimestampMs(timestamp: string): number | undefined {
+		const value = Number(timestamp);
+		if (!Number.isFinite(value) || value <= 0) {
+			return undefined;
+		}
+		return value < 1e12 ? value * 1000 : value;
+	}
+
+	// Helper method to check the webhook timestamp is within the allowed window
+	private static isTimestampFresh(timestamp: string, toleranceSeconds: number): boolean {
+		const timestampMs = CashfreePaymentsTrigger.getTimestampMs(timestamp);
+		return timestampMs !== undefined && Math.abs(Date.now() - timestampMs) <= toleranceSeconds * 1000;
+	}
+
+	// Helper method to remember an accepted request until it leaves the tolerance window.
+	// Returns false when the same timestamp and signature were already accepted, i.e. the request is a replay.
+	private static registerDelivery(staticData: IDataObject, timestamp: string, signature: string, toleranceSeconds: number): boolean {
+		const now = Date.now();
+		const seen: { [key: string]: number } = {};
+		for (const [key, expiresAt] of Object.entries((staticData.acceptedDeliveries ?? {}) as IDataObject)) {
+			if ((expiresAt as number) > now) seen[key] = expiresAt as number;
+		}
+
+		const key = crypto.createHash('sha256').update(`${timestamp}:${signature}`).digest('hex');
+		if (seen[key] !== undefined) {
+			staticData.acceptedDeliveries = seen;
+			return false;
+		}
+
+		seen[key] = (CashfreePaymentsTrigger.getTimestampMs(timestamp) ?? now) + toleranceSeconds * 1000;
+		staticData.acceptedDeliveries = seen;
+		return true;
+	}
+
+	description: INodeTypeDescription = {
+		displayName: 'Cashfree Payments Trigger',
+		name: 'cashfreePaymentsTrigger',
+		icon: 'file:icon1.svg',
+		group: ['trigger'],
+		version: 1,
+		description: 'Starts the workflow when Cashfree Payment Gateway events occur',
+		defaults: {
+			name: 'Cashfree Payments Trigger',
+		},
+		inputs: [],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'cashfreeApi',
+				required: true,
+			},
+		],
+		webhooks: [
+			{
+				name: 'default',
+				httpMethod: 'POST',
+				responseMode: 'onReceived',
+				path: 'webhook',
+			},
+		],
+		properties: [
+			{
+				displayName: 'Add this webhook URL in the Cashfree Merchant Dashboard under Developers > Webhooks. The signature is verified with the Client Secret from the Payment Gateway credentials.',
+				name: 'notice',
+				type: 'notice',
+				default: '',
+			},
+			{
+				displayName: 'Events',
+				name: 'events',
+				type: 'multiOptions',
+				options: [
+					{
+						name: '*',
+						value: '*',
+						description: 'Any event',
+					},
+					{
+						name: 'Payment Success',
+						value: 'PAYMENT_SUCCESS_WEBHOOK',
+						description: 'Triggered when a payment is successful',
+					},
+					{
+						name: 'Payment Failed',
+						value: 'PAYMENT_FAILED_WEBHOOK',
+						description: 'Triggered when a payment fails',
+					},
+					{
+						name: 'Payment User Dropped',
+						value: 'PAYMENT_USER_DROPPED_WEBHOOK',
+						description: 'Triggered when the customer drops off the payment flow',
+					},
+					{
+						name: 'Refund Status',
+						value: 'REFUND_STATUS_WEBHOOK',
+						description: 'Triggered when a refund changes status',
+					},
+					{
+						name: 'Payment Link Event',
+						value: 'PAYMENT_LINK_EVENT',
+						description: 'Triggered when a payment link is paid, partially paid, expired or cancelled',
+					},
+				],
+				default: ['*'],
+				required: true,
+				description: 'The events to listen to',
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Verify Signature',
+						name: 'verifySignature',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to reject requests whose x-webhook-signature does not match the HMAC of x-webhook-timestamp and the raw body',
+					},
+					{
+						displayName: 'Timestamp Tolerance (Seconds)',
+						name: 'timestampTolerance',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 300,
+						description: 'Maximum age of x-webhook-timestamp before the request is rejected as a replay. Requests seen within this window are rejected as duplicates. Set to 0 to disable both checks.',
+					},
+				],
+			},
+		],
+	};
+
+	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+		const req = this.getRequestObject();
+		const res = this.getResponseObject();
+		const headers = this.getHeaderData();
+		const body = this.getBodyData();
+		const events = this.getNodeParameter('events', []) as string[];
+		const options = this.getNodeParameter('options', {}) as IDataObject;
+
+		const verifySignature = options.verifySignature !== false;
+		const timestampTolerance = options.timestampTolerance === undefined ? 300 : (options.timestampTolerance as number);
+
+		if (verifySignature) {
+			const credentials = await this.getCredentials('cashfreeApi');
+			if (!credentials.clientSecret) {
+				res.status(500).send('Client Secret is not configured in the Cashfree credentials').end();
+				return { noWebhookResponse: true };
+			}
+
+			const signature = headers['x-webhook-signature'] as string | undefined;
+			const timestamp = headers['x-webhook-timestamp'] as string | undefined;
+			if (!signature || !timestamp) {
+				res.status(401).send('Missing webhook signature headers').end();
+				return { noWebhookResponse: true };
+			}
+
+			if (timestampTolerance > 0 && !CashfreePaymentsTrigger.isTimestampFresh(timestamp, timestampTolerance)) {
+				res.status(401).send('Webhook timestamp is outside the allowed window').end();
+				return { noWebhookResponse: true };
+			}
+
+			// Signature must be computed over the raw payload, not the re-serialised JSON
+			const rawBody = req.rawBody ? req.rawBody.toString('utf8') : JSON.stringify(body);
+			const expectedSignature = CashfreePaymentsTrigger.computeWebhookSignature(
+				timestamp,
+				rawBody,
+				credentials.clientSecret as string,
+			);
+
+			if (!CashfreePaymentsTrigger.isSignatureValid(expectedSignature, signature)) {
+				res.status(401).send('Invalid webhook signature').end();
+				return { noWebhookResponse: true };
+			}
+
+			// A valid signature can be resent unchanged within the window, so each delivery is only accepted once
+			if (timestampTolerance > 0) {
+				const staticData = this.getWorkflowStaticData('node');
+				if (!CashfreePaymentsTrigger.registerDelivery(staticData, timestamp, signature, timestampTolerance)) {
+					res.status(409).send('Webhook request was already received').end();
+					return { noWebhookResponse: true };
+				}
+			}
+		}
+
+		const eventType = body.type as string | undefined;
+		if (!events.includes('*') && (!eventType || !events.includes(eventType))) {
+			// Acknowledge so Cashfree does not retry, but do not start the workflow
+			return { webhookResponse: 'OK' };
+		}
+
+		return {
+			workflowData: [this.helpers.returnJsonArray(body)],
+		};
+	}
+}
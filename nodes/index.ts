@@ -1,5 +1,7 @@
 import { CashfreePayments } from './CashfreePayments/CashfreePayments.node';
+import { CashfreePaymentsTrigger } from './CashfreePaymentsTrigger/CashfreePaymentsTrigger.node';
+import { CashfreePaymentsPollingTrigger } from './CashfreePaymentsPollingTrigger/CashfreePaymentsPollingTrigger.node';
 import { CashfreeApi } from '../credentials/CashfreeApi.credentials';
 
-export const nodes = [CashfreePayments];
+export const nodes = [CashfreePayments, CashfreePaymentsTrigger, CashfreePaymentsPollingTrigger];
 export const credentials = [CashfreeApi];
\ No newline at end of file